@@ -0,0 +1,70 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Runs simulated battles for balance testing. Usage:
+ *   npm run simulate -- [--battles=1000] [--seed=1]
+ */
+
+import { AutoAlly } from "./src/battle/AutoAlly";
+import { Behaviour } from "./src/battle/Behaviour";
+import { formatReport, simulateBattles } from "./src/battle/BattleSimulator";
+import { Combatant } from "./src/battle/Combatant";
+import { TestEnemy } from "./src/battle/TestEnemy";
+
+/**
+ * reads a numeric command line option like --battles=1000
+ * @param name name of the option
+ * @param fallback value to use if the option isn't given
+ */
+const option = (name: string, fallback: number): number => {
+  const arg = process.argv.find(a => a.startsWith(`--${name}=`));
+  return arg === undefined ? fallback : Number(arg.split("=")[1]);
+};
+
+/** the same party as the test battle, with the player's choices automated */
+const createAlly = (name: string): Combatant => {
+  const ally = new AutoAlly(name);
+  ally.traits = {
+    ...ally.traits,
+    speed: 5,
+    hp: 60,
+    maxHp: 60,
+    mp: 12,
+    maxMp: 12,
+    attack: 12
+  };
+  return ally;
+};
+
+Behaviour.noisy = false;
+simulateBattles({
+  createParties: () => {
+    const right = [
+      new TestEnemy("Brute 1"),
+      new TestEnemy("Shaman", "shaman"),
+      new TestEnemy("Warlord", "warlord"),
+      new TestEnemy("Brute 2")
+    ];
+    right[1].row = "back";
+    return { left: [createAlly("Ally 1"), createAlly("Ally 2")], right: right };
+  },
+  battles: option("battles", 1000),
+  seed: option("seed", 1)
+}).then(report => console.log(formatReport(report)));
@@ -0,0 +1,85 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Manager } from "./Manager";
+import { Affinities, Affinity, Element } from "./battle/Element";
+
+/**
+ * The BestiaryManager remembers what the player has learned about each kind
+ * of enemy, like which elements it's weak to. Affinities are only discovered
+ * by hitting an enemy with an element
+ */
+class BestiaryManager extends Manager {
+  /** singleton instance */
+  private static _instance = new BestiaryManager();
+  /** discovered affinities, by kind of enemy */
+  private readonly affinities: Map<string, Affinities>;
+
+  /**
+   * private because BestiaryManager is supposed to be a singleton
+   */
+  private constructor() {
+    super();
+    this.setType("Bestiary Manager");
+    this.affinities = new Map<string, Affinities>();
+  }
+
+  /**
+   * Get the singleton instance of this manager
+   */
+  public static getInstance(): BestiaryManager {
+    return BestiaryManager._instance;
+  }
+
+  /**
+   * records that a kind of enemy has an affinity for an element
+   * @param kind the kind of enemy, from Combatant.getKind()
+   * @param element the element it was hit with
+   * @param affinity how it reacted
+   * @return true if this wasn't known before
+   */
+  public discoverAffinity(
+    kind: string,
+    element: Element,
+    affinity: Affinity
+  ): boolean {
+    const known = this.affinities.get(kind) ?? {};
+    const isNew = known[element] === undefined;
+    known[element] = affinity;
+    this.affinities.set(kind, known);
+    return isNew;
+  }
+
+  /**
+   * get the affinities the player has discovered for a kind of enemy
+   * @param kind the kind of enemy, from Combatant.getKind()
+   */
+  public getKnownAffinities(kind: string): Affinities {
+    return { ...this.affinities.get(kind) };
+  }
+
+  /** get every kind of enemy the player has discovered something about */
+  public getKnownKinds(): string[] {
+    const kinds: string[] = [];
+    this.affinities.forEach((_, kind) => kinds.push(kind));
+    return kinds.sort();
+  }
+}
+
+export const BM = BestiaryManager.getInstance();
@@ -62,6 +62,19 @@ export class Box {
     );
   }
 
+  /**
+   * test whether this box overlaps another
+   * @param other the box to test against
+   */
+  public intersects(other: Box): boolean {
+    return (
+      this.topLeft.x < other.topLeft.x + other.width &&
+      other.topLeft.x < this.topLeft.x + this.width &&
+      this.topLeft.y < other.topLeft.y + other.height &&
+      other.topLeft.y < this.topLeft.y + this.height
+    );
+  }
+
   /**
    * draws a rect with the dimensions of this box on the canvas
    * @param ctx the canvas context to draw on
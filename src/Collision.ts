@@ -0,0 +1,153 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+import { Vector } from "./Vector";
+import { Box } from "./Box";
+import { Line } from "./Line";
+import { Polygon } from "./Polygon";
+
+/** overlaps smaller than this are treated as just touching */
+const EPSILON = 1e-6;
+/** most times to push a box out of everything it overlaps each sub-step */
+const MAX_PUSHES = 4;
+
+/**
+ * finds the shortest push that moves a box out of a shape, using the
+ * separating axis theorem. Only works for convex shapes
+ * @param box the box to push
+ * @param points the corners of the shape, or the ends of a line
+ * @param axes directions to test besides the box's own, as unit vectors
+ * @return how far to move the box, or undefined if they don't overlap
+ */
+const separate = (
+  box: Box,
+  points: Vector[],
+  axes: Vector[]
+): Vector | undefined => {
+  const center = box.getCenter();
+  let push: Vector | undefined = undefined;
+  let shortest = Infinity;
+  for (const axis of [new Vector(1, 0), new Vector(0, 1), ...axes]) {
+    const radius =
+      (box.width / 2) * Math.abs(axis.x) + (box.height / 2) * Math.abs(axis.y);
+    const c = center.dot(axis);
+    const projected = points.map(p => p.dot(axis));
+    const min = Math.min(...projected);
+    const max = Math.max(...projected);
+    const overlap = Math.min(c + radius - min, max - (c - radius));
+    // a gap along any axis means they don't overlap
+    if (overlap <= EPSILON) return undefined;
+    if (overlap < shortest) {
+      shortest = overlap;
+      // push toward whichever side the box's center is on
+      const sign = c < (min + max) / 2 ? -1 : 1;
+      push = axis.scale(overlap * sign);
+    }
+  }
+  return push;
+};
+
+/**
+ * finds the shortest push that moves a box off a line
+ * @param box the box to push
+ * @param line the line to push it off of
+ * @return how far to move the box, or undefined if they don't overlap
+ */
+export const separateFromLine = (box: Box, line: Line): Vector | undefined => {
+  const along = line.p2.subtract(line.p1);
+  const axes =
+    along.getMagnitude() > 0 ? [new Vector(-along.y, along.x).normalize()] : [];
+  return separate(box, [line.p1, line.p2], axes);
+};
+
+/**
+ * finds the shortest push that moves a box out of another box
+ * @param box the box to push
+ * @param other the box to push it out of
+ * @return how far to move the box, or undefined if they don't overlap
+ */
+export const separateFromBox = (box: Box, other: Box): Vector | undefined => {
+  const { x, y } = other.topLeft;
+  return separate(
+    box,
+    [
+      other.topLeft,
+      new Vector(x + other.width, y),
+      new Vector(x, y + other.height),
+      new Vector(x + other.width, y + other.height)
+    ],
+    []
+  );
+};
+
+/**
+ * moves a box through barriers and obstacles, stopping at them and sliding
+ * along them. The move is split into sub-steps shorter than half the box, so
+ * it can't skip through thin barriers
+ * @param box the box to move, which isn't changed
+ * @param velocity how far it's trying to move
+ * @param barriers polygons it can't pass through the edges of
+ * @param obstacles boxes it can't overlap
+ * @return how far it can actually move
+ */
+export const sweepBox = (
+  box: Box,
+  velocity: Vector,
+  barriers: Polygon[],
+  obstacles: Box[]
+): Vector => {
+  const distance = velocity.getMagnitude();
+  if (distance === 0) return velocity;
+  const edges = barriers.reduce<Line[]>(
+    (all, b) => all.concat(b.getEdges()),
+    []
+  );
+  const maxStep = Math.max(Math.min(box.width, box.height) / 2, 1);
+  const steps = Math.ceil(distance / maxStep);
+  const step = velocity.scale(1 / steps);
+  let pos = box.topLeft;
+  for (let i = 0; i < steps; ++i) {
+    pos = pos.add(step);
+    // pushing out along a wall's normal keeps the part of the move along it
+    for (let j = 0; j < MAX_PUSHES; ++j) {
+      let pushed = false;
+      for (const edge of edges) {
+        const push = separateFromLine(
+          new Box(pos, box.width, box.height),
+          edge
+        );
+        if (push !== undefined) {
+          pos = pos.add(push);
+          pushed = true;
+        }
+      }
+      for (const obstacle of obstacles) {
+        const push = separateFromBox(
+          new Box(pos, box.width, box.height),
+          obstacle
+        );
+        if (push !== undefined) {
+          pos = pos.add(push);
+          pushed = true;
+        }
+      }
+      if (!pushed) break;
+    }
+  }
+  return pos.subtract(box.topLeft);
+};
@@ -0,0 +1,120 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Polygon } from "./Polygon";
+import { Vector } from "./Vector";
+import { Random } from "./Random";
+import { Combatant } from "./battle/Combatant";
+import { getEnemyDefinition } from "./battle/Enemy";
+import { StandardEnemy } from "./battle/StandardEnemy";
+
+/** a set of enemies that can be encountered together */
+export type EncounterGroup = {
+  /** identifiers of the enemies in the group, from enemies.ts, top to bottom */
+  enemies: string[];
+  /** groups are picked in proportion to their weight */
+  weight: number;
+};
+
+/** what can be encountered in a zone, and how often */
+export type EncounterTable = {
+  /** chance from 0 to 1 of an encounter on each step taken in the zone */
+  rate: number;
+  groups: EncounterGroup[];
+  /** every enemy's level is picked from this range, inclusive */
+  levels: { min: number; max: number };
+  /**
+   * identifier of the arena battles here are fought in, from arenas.ts.
+   * Defaults to the room's arena
+   */
+  arena?: string;
+};
+
+/**
+ * A region of a room where the player can run into random encounters while
+ * walking around
+ */
+export class EncounterZone {
+  /** the area the zone covers, in room coordinates */
+  public readonly region: Polygon;
+  /** what can be encountered here */
+  public readonly table: EncounterTable;
+
+  /**
+   * @param region the area the zone covers, in room coordinates
+   * @param table what can be encountered here
+   */
+  public constructor(region: Polygon, table: EncounterTable) {
+    if (table.groups.length === 0) {
+      throw new Error("EncounterZone: table must have a group");
+    }
+    this.region = region;
+    this.table = table;
+  }
+
+  /**
+   * returns true if a point is inside this zone
+   * @param point a point in room coordinates
+   */
+  public contains(point: Vector): boolean {
+    return this.region.contains(point);
+  }
+
+  /**
+   * rolls whether a step taken in this zone starts an encounter
+   * @param random the generator to roll with
+   */
+  public rollEncounter(random: Random): boolean {
+    return random.next() < this.table.rate;
+  }
+
+  /**
+   * picks a group from the table and creates its enemies. Enemies of the same
+   * kind are told apart with letters, like "Slime A" and "Slime B"
+   * @param random the generator to roll with
+   */
+  public createEnemies(random: Random): Combatant[] {
+    const groups = this.table.groups;
+    const total = groups.reduce((sum, g) => sum + g.weight, 0);
+    let roll = random.next() * total;
+    let group = groups[groups.length - 1];
+    for (const g of groups) {
+      roll -= g.weight;
+      if (roll < 0) {
+        group = g;
+        break;
+      }
+    }
+
+    const counts = new Map<string, number>();
+    for (const id of group.enemies) counts.set(id, (counts.get(id) ?? 0) + 1);
+    const seen = new Map<string, number>();
+    return group.enemies.map(id => {
+      const definition = getEnemyDefinition(id);
+      const level = random.int(this.table.levels.min, this.table.levels.max);
+      const index = seen.get(id) ?? 0;
+      seen.set(id, index + 1);
+      const name =
+        (counts.get(id) ?? 0) > 1
+          ? `${definition.name} ${String.fromCharCode(65 + index)}`
+          : definition.name;
+      return new StandardEnemy(definition, level, name);
+    });
+  }
+}
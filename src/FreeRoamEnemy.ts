@@ -0,0 +1,285 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { FreeRoamEntity } from "./FreeRoamEntity";
+import { Vector } from "./Vector";
+import { Box } from "./Box";
+import { Combatant } from "./battle/Combatant";
+import { getEnemyDefinition } from "./battle/Enemy";
+import { StandardEnemy } from "./battle/StandardEnemy";
+import { BattleAdvantage } from "./battle/Battle";
+
+/** how a free roam enemy moves and what fighting it is like */
+export type FreeRoamEnemyOptions = {
+  /** identifiers of the enemies fought, from enemies.ts, top to bottom */
+  group: string[];
+  /** level of every enemy in the group */
+  level: number;
+  /** points to walk between in order, looping. Defaults to standing still */
+  patrol?: Vector[];
+  /** pixels moved each step while patrolling. Defaults to 2 */
+  speed?: number;
+  /**
+   * starts chasing the player when they come this close, and gives up when
+   * they get half again as far away. Defaults to 250, or 0 to never chase
+   */
+  sightRadius?: number;
+  /** pixels moved each step while chasing. Defaults to 4 */
+  chaseSpeed?: number;
+  /**
+   * game steps after being defeated before reappearing where it started.
+   * Leave out for an enemy that stays defeated
+   */
+  respawnSteps?: number;
+  /** identifier of the arena to fight in. Defaults to the room's arena */
+  arena?: string;
+  /** color of the circle drawn when there's no sprite */
+  color?: string;
+};
+
+/** pixels moved in a step that count as being stuck */
+const EPSILON = 0.01;
+
+/** what a free roam enemy is doing */
+type FreeRoamEnemyState = "patrol" | "chase" | "stunned" | "defeated";
+
+/**
+ * An enemy the player can see walking around a room, which starts a battle
+ * when it touches the player. It patrols a route, chases the player when they
+ * come near, and disappears once defeated
+ */
+export class FreeRoamEnemy extends FreeRoamEntity {
+  /** how this enemy moves and fights */
+  public readonly options: FreeRoamEnemyOptions;
+  /** what this enemy is doing */
+  private state: FreeRoamEnemyState;
+  /** where this enemy started, for respawning */
+  private readonly spawn: Vector;
+  /** index of the patrol point being walked to */
+  private patrolIndex: number;
+  /** steps left being stunned or defeated */
+  private timer: number;
+
+  /**
+   * @param label string identifier for this entity
+   * @param center starting center location of this entity
+   * @param width
+   * @param height
+   * @param options how this enemy moves and fights
+   */
+  public constructor(
+    label: string,
+    center: Vector,
+    width: number,
+    height: number,
+    options: FreeRoamEnemyOptions
+  ) {
+    super(label);
+    this.drawBox = new Box(
+      center.subtract(width / 2, height / 2),
+      width,
+      height
+    );
+    this.options = options;
+    this.state = "patrol";
+    this.spawn = this.drawBox.topLeft;
+    this.patrolIndex = 0;
+    this.timer = 0;
+  }
+
+  /** returns true if touching this enemy would start a battle */
+  public canFight(): boolean {
+    return this.state === "patrol" || this.state === "chase";
+  }
+
+  /** returns true if this enemy was defeated and will never come back */
+  public isGone(): boolean {
+    return this.state === "defeated" && this.options.respawnSteps === undefined;
+  }
+
+  /** creates the combatants fought when touching this enemy */
+  public createEnemies(): Combatant[] {
+    return this.options.group.map(
+      id => new StandardEnemy(getEnemyDefinition(id), this.options.level)
+    );
+  }
+
+  /** hides this enemy until it respawns, if it ever does */
+  public defeat(): void {
+    this.state = "defeated";
+    this.timer = this.options.respawnSteps ?? 0;
+  }
+
+  /**
+   * stops this enemy from moving or starting battles for a while, such as
+   * after the player escapes from it. It lasts until the target it's given
+   * in step() has stopped touching it, however long that takes
+   * @param steps the fewest game steps it lasts
+   */
+  public stun(steps: number): void {
+    this.state = "stunned";
+    this.timer = steps;
+  }
+
+  /**
+   * moves this enemy for one game step
+   * @param target the entity to chase, usually the player
+   * @param collide works out how far it can move before running into
+   * something. Defaults to moving freely
+   */
+  public step(
+    target: FreeRoamEntity | undefined,
+    collide: (velocity: Vector) => Vector = (v): Vector => v
+  ): void {
+    switch (this.state) {
+      case "defeated":
+        if (this.options.respawnSteps !== undefined && --this.timer <= 0) {
+          this.drawBox.topLeft = this.spawn;
+          this.patrolIndex = 0;
+          this.state = "patrol";
+        }
+        return;
+      case "stunned":
+        // only re-arm once apart, so an escape can't lead straight back in
+        if (--this.timer <= 0 && !this.touches(target)) this.state = "patrol";
+        return;
+      case "patrol": {
+        if (this.canSee(target, 1)) {
+          this.state = "chase";
+          return;
+        }
+        const patrol = this.options.patrol ?? [];
+        if (patrol.length === 0) return;
+        const point = patrol[this.patrolIndex % patrol.length];
+        if (this.moveToward(point, this.options.speed ?? 2, collide)) {
+          this.patrolIndex = (this.patrolIndex + 1) % patrol.length;
+        }
+        return;
+      }
+      case "chase":
+        if (target === undefined || !this.canSee(target, 1.5)) {
+          this.state = "patrol";
+          return;
+        }
+        this.moveToward(
+          target.drawBox.getCenter(),
+          this.options.chaseSpeed ?? 4,
+          collide
+        );
+        return;
+    }
+  }
+
+  /**
+   * returns true if an entity's collision box overlaps this enemy's
+   * @param target the entity to check
+   */
+  private touches(target: FreeRoamEntity | undefined): boolean {
+    return (
+      target !== undefined &&
+      target.getCollisionBox().intersects(this.getCollisionBox())
+    );
+  }
+
+  /**
+   * returns true if an entity is within sight
+   * @param target the entity to look for
+   * @param range multiplies the sight radius
+   */
+  private canSee(target: FreeRoamEntity | undefined, range: number): boolean {
+    if (target === undefined) return false;
+    const distance = target.drawBox
+      .getCenter()
+      .distanceTo(this.drawBox.getCenter());
+    return distance <= (this.options.sightRadius ?? 250) * range;
+  }
+
+  /**
+   * moves this enemy's center toward a point, facing the way it moves
+   * @param point where to go
+   * @param speed most pixels to move
+   * @param collide works out how far it can move before running into
+   * something
+   * @return true if it arrived, or got stuck on the way
+   */
+  private moveToward(
+    point: Vector,
+    speed: number,
+    collide: (velocity: Vector) => Vector
+  ): boolean {
+    const diff = point.subtract(this.drawBox.getCenter());
+    const distance = diff.getMagnitude();
+    const velocity = collide(
+      distance <= speed ? diff : diff.scale(speed / distance)
+    );
+    this.setDirection(diff);
+    this.drawBox.topLeft = this.drawBox.topLeft.add(velocity);
+    // give up on points it can't get any closer to
+    return distance <= speed || velocity.getMagnitude() < EPSILON;
+  }
+
+  /**
+   * works out who gets the jump when the player and an enemy touch. Walking
+   * into an enemy from behind is a first strike, and being caught from behind
+   * is an ambush
+   * @param player the player's entity
+   * @param enemy the enemy that was touched
+   */
+  public static contactAdvantage(
+    player: FreeRoamEntity,
+    enemy: FreeRoamEntity
+  ): BattleAdvantage {
+    const toEnemy = enemy.drawBox
+      .getCenter()
+      .subtract(player.drawBox.getCenter());
+    const playerFacesEnemy = player.getDirection().dot(toEnemy) > 0;
+    const enemyFacesPlayer = enemy.getDirection().dot(toEnemy) < 0;
+    if (playerFacesEnemy && !enemyFacesPlayer) return "first strike";
+    if (enemyFacesPlayer && !playerFacesEnemy) return "ambush";
+    return "normal";
+  }
+
+  /** @override */
+  public draw(ctx: CanvasRenderingContext2D): void {
+    if (this.state === "defeated") return;
+    ctx.save();
+    // blink while stunned
+    if (this.state === "stunned" && Math.floor(this.timer / 4) % 2 === 0) {
+      ctx.globalAlpha = 0.4;
+    }
+    if (this.getSprite() !== undefined) {
+      super.draw(ctx);
+    } else {
+      const center = this.drawBox.getCenter();
+      ctx.fillStyle = this.options.color ?? "#c0392b";
+      ctx.beginPath();
+      ctx.ellipse(
+        center.x,
+        center.y,
+        this.drawBox.width / 2,
+        this.drawBox.height / 2,
+        0,
+        0,
+        Math.PI * 2
+      );
+      ctx.fill();
+    }
+    ctx.restore();
+  }
+}
@@ -36,6 +36,13 @@ export abstract class FreeRoamEntity {
   public drawBox: Box;
   /** higher altitudes get drawn on top of lower ones */
   public altitude: number;
+  /**
+   * where this entity collides with things, relative to the top left of its
+   * drawBox. Undefined uses the whole drawBox
+   */
+  private collisionShape: Box | undefined;
+  /** whether other entities are stopped by this one's collision box */
+  public solid: boolean;
 
   /**
    * Constructs a new FreeRoamEntity
@@ -48,6 +55,8 @@ export abstract class FreeRoamEntity {
     this.drawBox = new Box(new Vector(0, 0), 0, 0);
     this.sprite = undefined;
     this.altitude = 0;
+    this.collisionShape = undefined;
+    this.solid = false;
   }
 
   /**
@@ -57,6 +66,46 @@ export abstract class FreeRoamEntity {
     return this.label;
   }
 
+  /**
+   * get the direction this entity is facing, as a unit vector
+   */
+  public getDirection(): Vector {
+    return this.dir;
+  }
+
+  /**
+   * @param dir new direction for this entity to face. Its length doesn't
+   * matter, but a zero vector is ignored
+   */
+  public setDirection(dir: Vector): void {
+    if (dir.getMagnitude() > 0) this.dir = dir.normalize();
+  }
+
+  /**
+   * get where this entity collides with barriers and other entities, in room
+   * coordinates
+   */
+  public getCollisionBox(): Box {
+    const shape = this.collisionShape;
+    if (shape === undefined) return this.drawBox;
+    return new Box(
+      this.drawBox.topLeft.add(shape.topLeft),
+      shape.width,
+      shape.height
+    );
+  }
+
+  /**
+   * sets where this entity collides with things, such as just around its feet
+   * @param offset top left of the collision box, relative to the top left of
+   * the drawBox
+   * @param width
+   * @param height
+   */
+  public setCollisionBox(offset: Vector, width: number, height: number): void {
+    this.collisionShape = new Box(offset, width, height);
+  }
+
   /**
    * @param sprite new sprite for this entity
    */
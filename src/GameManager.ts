@@ -24,6 +24,11 @@ import { IM } from "./InputManager";
 import { RM } from "./ResourceManager";
 import { WM } from "./WorldManager";
 import { UM } from "./UIManager";
+import { RNG } from "./RandomManager";
+import { BM } from "./BestiaryManager";
+import { PM } from "./PartyManager";
+import { INV } from "./InventoryManager";
+import { WorldLoading } from "./worlds/WorldLoading";
 
 // target number of game steps per second
 const TARGET_STEPS_PER_SECOND = 30;
@@ -68,10 +73,15 @@ class GameManager extends Manager {
    * @override
    */
   public startUp(): void {
+    RNG.startUp();
+    BM.startUp();
+    PM.startUp();
+    INV.startUp();
     DM.startUp();
     RM.startUp();
     IM.startUp();
     WM.startUp();
+    WM.enterWorld(new WorldLoading());
     UM.startUp();
     super.startUp();
 
@@ -130,6 +130,8 @@ class Directional {
   public keyRate = 5;
   /** counter used for key repeat measurements */
   private keyCounter = 0;
+  /** whether fn has already fired since the directional was pressed */
+  private repeating = false;
 
   /**
    * Constructs a new Directional including set of four buttons and a joystick.
@@ -182,20 +184,23 @@ class Directional {
    */
   public step(): void {
     if (this.vec.getMagnitude() === 0) {
-      // not being pressed, reset keyCounter
-      this.keyCounter = this.keyDelay;
+      // not being pressed, fire immediately next time it is
+      this.keyCounter = 0;
+      this.repeating = false;
     } else {
       // directional being pressed
       if (this.keyCounter === 0) {
-        // fire fn
+        // fire fn. Positive y points down the screen
         if (Math.abs(this.vec.x) > Math.abs(this.vec.y)) {
           if (this.vec.x > 0) this.fn("right");
           else this.fn("left");
         } else {
-          if (this.vec.y > 0) this.fn("up");
-          else this.fn("down");
+          if (this.vec.y > 0) this.fn("down");
+          else this.fn("up");
         }
-        this.keyCounter = this.keyRate;
+        // wait longer before the first repeat than between repeats
+        this.keyCounter = this.repeating ? this.keyRate : this.keyDelay;
+        this.repeating = true;
       }
       this.keyCounter--;
     }
@@ -273,9 +278,9 @@ class InputManager extends Manager {
       left: "a",
       hAxis: 0,
       vAxis: 1,
-      clickKey: "space",
+      clickKey: " ",
       clickGP: 4,
-      cancelKey: "tab",
+      cancelKey: "Tab",
       cancelGP: 3,
       fullscreenKey: "f",
       fullscreenGP: 8
@@ -331,8 +336,8 @@ class InputManager extends Manager {
     );
     this.registerButton(
       "cancel",
-      this.menuNavigationInputs.clickKey,
-      this.menuNavigationInputs.clickGP
+      this.menuNavigationInputs.cancelKey,
+      this.menuNavigationInputs.cancelGP
     );
     this.registerButton(
       "fullscreen",
@@ -466,13 +471,22 @@ class InputManager extends Manager {
     }
   }
 
+  /**
+   * letter keys match regardless of case, so holding shift, such as to run,
+   * doesn't stop them from working or leave them stuck down
+   * @param key KeyboardEvent.key value of a key
+   */
+  private static normalizeKey(key: string): string {
+    return key.length === 1 ? key.toLowerCase() : key;
+  }
+
   /**
    * handler for keydown events
    * @param e the KeyboardEvent generated by the key press
    */
   private keydownHandler(e: KeyboardEvent): void {
     this.usingKeyboard = true;
-    const key = e.key;
+    const key = InputManager.normalizeKey(e.key);
 
     // is it a stick button?
     this.directionals.forEach(dir => {
@@ -500,7 +514,7 @@ class InputManager extends Manager {
    */
   private keyupHandler(e: KeyboardEvent): void {
     this.usingKeyboard = true;
-    const key = e.key;
+    const key = InputManager.normalizeKey(e.key);
 
     // is it a stick button?
     this.directionals.forEach(dir => {
@@ -0,0 +1,199 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Manager } from "./Manager";
+import { getAction } from "./battle/BattleAction";
+import { getItemDefinition } from "./items/Item";
+import { Inventory } from "./items/Inventory";
+import { PartyMember } from "./party/PartyMember";
+import { EquipmentSlot } from "./items/Equipment";
+import { ItemCount } from "./items/Loot";
+
+/** the party can't carry more gold than this */
+export const MAX_GOLD = 999999;
+
+/**
+ * The InventoryManager holds the items the party carries. The party's
+ * combatants share its inventory in battle, items marked usableOutside can be
+ * used on party members from the inventory screen, and equipment moves between
+ * the inventory and party members from the equip screen
+ */
+class InventoryManager extends Manager {
+  /** singleton instance */
+  private static _instance = new InventoryManager();
+  /** the items the party carries */
+  private readonly inventory: Inventory;
+  /** money the party carries */
+  private gold: number;
+
+  /**
+   * private because InventoryManager is supposed to be a singleton
+   */
+  private constructor() {
+    super();
+    this.setType("Inventory Manager");
+    this.inventory = new Inventory();
+    this.gold = 0;
+  }
+
+  /**
+   * Get the singleton instance of this manager
+   */
+  public static getInstance(): InventoryManager {
+    return InventoryManager._instance;
+  }
+
+  /** get the items the party carries */
+  public getInventory(): Inventory {
+    return this.inventory;
+  }
+
+  /** get the money the party carries */
+  public getGold(): number {
+    return this.gold;
+  }
+
+  /**
+   * gives the party money, up to MAX_GOLD
+   * @param amount how much to give
+   */
+  public addGold(amount: number): void {
+    this.gold = Math.min(this.gold + amount, MAX_GOLD);
+  }
+
+  /**
+   * takes money from the party
+   * @param amount how much to take
+   * @return false if the party doesn't have enough, in which case none is
+   * taken
+   */
+  public spendGold(amount: number): boolean {
+    if (amount > this.gold) return false;
+    this.gold -= amount;
+    return true;
+  }
+
+  /**
+   * puts the gold and items earned in a battle into the party's inventory
+   * @param rewards the gold and items to put in
+   * @return the items that didn't fit
+   */
+  public deposit(rewards: { gold: number; items: ItemCount[] }): ItemCount[] {
+    this.addGold(rewards.gold);
+    const leftBehind: ItemCount[] = [];
+    for (const entry of rewards.items) {
+      const added = this.inventory.add(entry.item, entry.count);
+      if (added < entry.count) {
+        leftBehind.push({ item: entry.item, count: entry.count - added });
+      }
+    }
+    return leftBehind;
+  }
+
+  /**
+   * returns true if an item can be used on a party member right now, outside
+   * of battle
+   * @param id identifier of the item
+   * @param member the party member to use it on
+   */
+  public canUseOn(id: string, member: PartyMember): boolean {
+    const item = getItemDefinition(id);
+    if (!item.usableOutside || item.action === undefined) return false;
+    if (this.inventory.count(id) < 1) return false;
+    const traits = member.getTraits();
+    const condition = member.getCondition();
+    return getAction(item.action).effects.some(
+      e =>
+        (e.kind === "heal" && condition.hp < traits.maxHp) ||
+        (e.kind === "restore mp" && condition.mp < traits.maxMp)
+    );
+  }
+
+  /**
+   * uses one of an item on party members outside of battle
+   * @param id identifier of the item
+   * @param members who the item is used on. Items that target one ally should
+   * only be given one
+   * @return false if the item couldn't be used on any of them, in which case
+   * it isn't used up
+   */
+  public useOn(id: string, members: PartyMember[]): boolean {
+    const targets = members.filter(m => this.canUseOn(id, m));
+    const action = getItemDefinition(id).action;
+    if (targets.length === 0 || action === undefined) return false;
+    for (const member of targets) {
+      for (const effect of getAction(action).effects) {
+        const condition = member.getCondition();
+        if (effect.kind === "heal") {
+          member.setCondition(condition.hp + effect.power, condition.mp);
+        } else if (effect.kind === "restore mp") {
+          member.setCondition(condition.hp, condition.mp + effect.power);
+        }
+      }
+    }
+    this.inventory.remove(id);
+    return true;
+  }
+
+  /**
+   * takes a piece of equipment out of the inventory and puts it on a party
+   * member, putting whatever they wore in that slot back
+   * @param id identifier of the equipment
+   * @param member the party member to put it on
+   * @return false if there isn't one in the inventory or there's no room to
+   * put back what was worn, in which case nothing changes
+   */
+  public equip(id: string, member: PartyMember): boolean {
+    const item = getItemDefinition(id);
+    if (item.equipment === undefined || this.inventory.count(id) < 1) {
+      return false;
+    }
+    const worn = member.getEquipped(item.equipment.slot);
+    if (
+      worn !== undefined &&
+      worn.id !== id &&
+      this.inventory.getRoom(worn.id) < 1
+    ) {
+      return false;
+    }
+    this.inventory.remove(id);
+    const previous = member.equip(item);
+    if (previous !== undefined) this.inventory.add(previous.id);
+    return true;
+  }
+
+  /**
+   * takes off whatever a party member wears in a slot and puts it in the
+   * inventory
+   * @param member the party member
+   * @param slot the slot to empty
+   * @return false if the slot was empty or there's no room in the inventory
+   */
+  public unequip(member: PartyMember, slot: EquipmentSlot): boolean {
+    const worn = member.getEquipped(slot);
+    if (worn === undefined || this.inventory.getRoom(worn.id) < 1) {
+      return false;
+    }
+    member.unequip(slot);
+    this.inventory.add(worn.id);
+    return true;
+  }
+}
+
+export const INV = InventoryManager.getInstance();
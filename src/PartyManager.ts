@@ -0,0 +1,256 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Manager } from "./Manager";
+import { Combatant } from "./battle/Combatant";
+import { Formation, getFormation } from "./battle/Formation";
+import { PartyMember } from "./party/PartyMember";
+import { INV } from "./InventoryManager";
+
+/** most party members that can fight at once, the most a battle side holds */
+export const MAX_ACTIVE = 5;
+
+/** something that happened to the party */
+export type PartyEvent =
+  | { type: "join"; member: PartyMember; active: boolean }
+  | { type: "leave"; member: PartyMember }
+  | { type: "reorder" }
+  | { type: "formation"; formation: Formation };
+
+export type PartyListener = (event: PartyEvent) => void;
+
+/**
+ * The PartyManager keeps track of who is in the player's party. Up to
+ * MAX_ACTIVE members are active and fight in battles, in order from top to
+ * bottom, and the rest wait in reserve. The party also has a formation, which
+ * the party screen can change
+ */
+class PartyManager extends Manager {
+  /** singleton instance */
+  private static _instance = new PartyManager();
+  /** members who fight in battles, from top to bottom */
+  private active: PartyMember[];
+  /** members who don't fight */
+  private reserve: PartyMember[];
+  /** rows the active members stand in */
+  private formation: Formation;
+  /** functions to call when the party changes */
+  private readonly listeners: PartyListener[];
+
+  /**
+   * private because PartyManager is supposed to be a singleton
+   */
+  private constructor() {
+    super();
+    this.setType("Party Manager");
+    this.active = [];
+    this.reserve = [];
+    this.formation = PartyManager.copy(getFormation("standard"));
+    this.listeners = [];
+  }
+
+  /**
+   * Get the singleton instance of this manager
+   */
+  public static getInstance(): PartyManager {
+    return PartyManager._instance;
+  }
+
+  /**
+   * copies a formation so that editing its rows doesn't change the preset
+   * @param formation the formation to copy
+   */
+  private static copy(formation: Formation): Formation {
+    return { ...formation, rows: [...formation.rows] };
+  }
+
+  /**
+   * registers a function to call whenever the party changes
+   * @param listener the function to call with each event
+   */
+  public addListener(listener: PartyListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * stops calling a function registered with addListener()
+   * @param listener the function to stop calling
+   * @return false if the function wasn't registered
+   */
+  public removeListener(listener: PartyListener): boolean {
+    const i = this.listeners.indexOf(listener);
+    if (i < 0) return false;
+    this.listeners.splice(i, 1);
+    return true;
+  }
+
+  /**
+   * sends an event to every listener
+   * @param event what happened to the party
+   */
+  private emit(event: PartyEvent): void {
+    for (const listener of this.listeners) listener(event);
+  }
+
+  /** get the members who fight in battles, from top to bottom */
+  public getActive(): PartyMember[] {
+    return [...this.active];
+  }
+
+  /** get the members waiting in reserve */
+  public getReserve(): PartyMember[] {
+    return [...this.reserve];
+  }
+
+  /** get every member, active ones first */
+  public getMembers(): PartyMember[] {
+    return [...this.active, ...this.reserve];
+  }
+
+  /** returns true if a member fights in battles */
+  public isActive(member: PartyMember): boolean {
+    return this.active.indexOf(member) > -1;
+  }
+
+  /**
+   * adds a member to the party. They become active if there's room
+   * @param member the member to add
+   * @param toReserve put the member in reserve even if there's room
+   * @return false if the member was already in the party
+   */
+  public join(member: PartyMember, toReserve = false): boolean {
+    if (this.getMembers().indexOf(member) > -1) return false;
+    const active = !toReserve && this.active.length < MAX_ACTIVE;
+    (active ? this.active : this.reserve).push(member);
+    this.emit({ type: "join", member: member, active: active });
+    return true;
+  }
+
+  /**
+   * removes a member from the party. If they were active, the first member in
+   * reserve takes their place
+   * @param member the member to remove
+   * @return false if the member wasn't in the party
+   */
+  public leave(member: PartyMember): boolean {
+    const i = this.active.indexOf(member);
+    if (i > -1) {
+      const replacement = this.reserve.shift();
+      if (replacement !== undefined) {
+        this.active.splice(i, 1, replacement);
+      } else {
+        this.active.splice(i, 1);
+      }
+    } else if (this.reserve.indexOf(member) > -1) {
+      this.reserve.splice(this.reserve.indexOf(member), 1);
+    } else {
+      return false;
+    }
+    this.emit({ type: "leave", member: member });
+    return true;
+  }
+
+  /**
+   * swaps the places of two members, which may be in the same list or one
+   * active and one in reserve
+   * @param a one member to swap
+   * @param b the other member to swap
+   * @return false if either member isn't in the party
+   */
+  public swap(a: PartyMember, b: PartyMember): boolean {
+    const listA = this.isActive(a) ? this.active : this.reserve;
+    const listB = this.isActive(b) ? this.active : this.reserve;
+    const i = listA.indexOf(a);
+    const j = listB.indexOf(b);
+    if (i < 0 || j < 0) return false;
+    listA[i] = b;
+    listB[j] = a;
+    this.emit({ type: "reorder" });
+    return true;
+  }
+
+  /**
+   * moves a member from reserve to the bottom of the active members
+   * @param member the member to move
+   * @return false if the member isn't in reserve or there's no room
+   */
+  public activate(member: PartyMember): boolean {
+    const i = this.reserve.indexOf(member);
+    if (i < 0 || this.active.length >= MAX_ACTIVE) return false;
+    this.reserve.splice(i, 1);
+    this.active.push(member);
+    this.emit({ type: "reorder" });
+    return true;
+  }
+
+  /**
+   * moves an active member to the end of the reserve
+   * @param member the member to move
+   * @return false if the member isn't active or is the only active member
+   */
+  public bench(member: PartyMember): boolean {
+    const i = this.active.indexOf(member);
+    if (i < 0 || this.active.length <= 1) return false;
+    this.active.splice(i, 1);
+    this.reserve.push(member);
+    this.emit({ type: "reorder" });
+    return true;
+  }
+
+  /** get the formation the active members stand in */
+  public getFormation(): Formation {
+    return PartyManager.copy(this.formation);
+  }
+
+  /**
+   * switches to a preset formation, replacing any rows changed by hand
+   * @param id the identifier of the formation in formations.ts
+   */
+  public setFormation(id: string): void {
+    this.formation = PartyManager.copy(getFormation(id));
+    this.emit({ type: "formation", formation: this.getFormation() });
+  }
+
+  /**
+   * moves one position of the formation to the other row
+   * @param position index of the position, from top to bottom
+   */
+  public toggleRow(position: number): void {
+    const rows = this.formation.rows;
+    while (rows.length <= position) rows.push("front");
+    rows[position] = rows[position] === "front" ? "back" : "front";
+    this.formation.name = "Custom";
+    this.formation.description = "Rows arranged on the party screen";
+    this.emit({ type: "formation", formation: this.getFormation() });
+  }
+
+  /**
+   * creates a combatant for each active member, to fight in one battle. They
+   * share the party's inventory
+   */
+  public createCombatants(): Combatant[] {
+    return this.active.map(m => {
+      const c = m.createCombatant();
+      c.inventory = INV.getInventory();
+      return c;
+    });
+  }
+}
+
+export const PM = PartyManager.getInstance();
@@ -0,0 +1,196 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+import { FreeRoamEntity } from "./FreeRoamEntity";
+import { Vector } from "./Vector";
+import { Box } from "./Box";
+import { RM } from "./ResourceManager";
+
+/** one of the four directions the player can be drawn facing */
+export type Facing = "up" | "right" | "down" | "left";
+
+/** labels of the sprites to draw for each facing */
+export type FacingSprites = { [facing in Facing]?: string };
+
+/** how the player moves and looks */
+export type PlayerEntityOptions = {
+  /** pixels moved each step while walking. Defaults to 5 */
+  walkSpeed?: number;
+  /** pixels moved each step while running. Defaults to 9 */
+  runSpeed?: number;
+  /** sprites to loop while walking or running, for each facing */
+  walkSprites?: FacingSprites;
+  /**
+   * sprites to show while standing still, for each facing. Defaults to the
+   * first frame of the walk sprite
+   */
+  idleSprites?: FacingSprites;
+  /** color of the circle drawn when there's no sprite */
+  color?: string;
+};
+
+/**
+ * pixels walked per frame of a walk animation, so that running animates
+ * faster than walking
+ */
+const STRIDE_LENGTH = 12;
+
+/**
+ * The entity the player controls in free roam. It walks or runs wherever the
+ * "move" directional points, faces the way it's going, and plays a walk
+ * animation for that direction
+ */
+export class PlayerEntity extends FreeRoamEntity {
+  /** how this entity moves and looks */
+  public readonly options: PlayerEntityOptions;
+  /** whether it moved last step */
+  private moving: boolean;
+  /** whether it was running last step */
+  private running: boolean;
+  /** pixels walked since it started moving, for timing walk frames */
+  private walked: number;
+
+  /**
+   * @param label string identifier for this entity
+   * @param center starting center location of this entity
+   * @param width
+   * @param height
+   * @param options how this entity moves and looks
+   */
+  public constructor(
+    label: string,
+    center: Vector,
+    width: number,
+    height: number,
+    options: PlayerEntityOptions = {}
+  ) {
+    super(label);
+    this.drawBox = new Box(
+      center.subtract(width / 2, height / 2),
+      width,
+      height
+    );
+    this.options = options;
+    this.moving = false;
+    this.running = false;
+    this.walked = 0;
+  }
+
+  /** returns true if this entity moved last step */
+  public isMoving(): boolean {
+    return this.moving;
+  }
+
+  /** returns true if this entity was running last step */
+  public isRunning(): boolean {
+    return this.moving && this.running;
+  }
+
+  /**
+   * get which of the four directions this entity is closest to facing.
+   * Diagonals favor left and right
+   */
+  public getFacing(): Facing {
+    const dir = this.getDirection();
+    if (Math.abs(dir.x) >= Math.abs(dir.y)) return dir.x < 0 ? "left" : "right";
+    return dir.y < 0 ? "up" : "down";
+  }
+
+  /**
+   * works out how far this entity tries to move this step, without moving it
+   * @param input direction to move in, usually from the "move" directional.
+   * Longer than 1 is treated as 1, and undefined or zero stands still
+   * @param run whether to run rather than walk
+   * @return how far it would move
+   */
+  public getVelocity(input: Vector | undefined, run: boolean): Vector {
+    if (input === undefined || input.getMagnitude() === 0) {
+      return new Vector(0, 0);
+    }
+    const speed = run
+      ? this.options.runSpeed ?? 9
+      : this.options.walkSpeed ?? 5;
+    // analog sticks can walk slowly, but never faster than full speed
+    return input.scale(speed / Math.max(input.getMagnitude(), 1));
+  }
+
+  /**
+   * moves this entity by some amount, facing the way it moves and advancing
+   * its walk animation
+   * @param velocity how far to move
+   * @param run whether it's running
+   * @param facing direction to face, if it's different from the way it moves,
+   * like when sliding along a wall
+   */
+  public move(velocity: Vector, run: boolean, facing = velocity): void {
+    const distance = velocity.getMagnitude();
+    this.running = run;
+    this.moving = distance > 0;
+    this.setDirection(facing);
+    if (!this.moving) {
+      this.walked = 0;
+      return;
+    }
+    this.drawBox.topLeft = this.drawBox.topLeft.add(velocity);
+    this.walked += distance;
+  }
+
+  /** @override */
+  public draw(ctx: CanvasRenderingContext2D): void {
+    const facing = this.getFacing();
+    const walkLabel = this.options.walkSprites?.[facing];
+    const idleLabel = this.options.idleSprites?.[facing];
+    const label = this.moving ? walkLabel : idleLabel ?? walkLabel;
+    const sprite = label !== undefined ? RM.getSprite(label) : undefined;
+    if (sprite !== undefined) {
+      // walk frames advance with distance rather than time
+      const elapsed = this.moving
+        ? (this.walked / STRIDE_LENGTH) * Math.max(sprite.getSlowdown(), 1)
+        : 0;
+      ctx.drawImage(
+        sprite.getFrameAt(elapsed, true).getImage(),
+        this.drawBox.topLeft.x,
+        this.drawBox.topLeft.y,
+        this.drawBox.width,
+        this.drawBox.height
+      );
+      return;
+    }
+    // without a sprite, draw a circle with a pointer showing which way it faces
+    const center = this.drawBox.getCenter();
+    const rx = this.drawBox.width / 2;
+    const ry = this.drawBox.height / 2;
+    ctx.save();
+    ctx.fillStyle = this.options.color ?? "#3daee9";
+    ctx.beginPath();
+    ctx.ellipse(center.x, center.y, rx, ry, 0, 0, Math.PI * 2);
+    ctx.fill();
+    const dir = this.getDirection();
+    const tip = center.add(dir.x * rx * 0.9, dir.y * ry * 0.9);
+    const base = center.add(dir.x * rx * 0.4, dir.y * ry * 0.4);
+    const side = new Vector(-dir.y * rx * 0.3, dir.x * ry * 0.3);
+    ctx.fillStyle = "#eff0f1";
+    ctx.beginPath();
+    ctx.moveTo(tip.x, tip.y);
+    ctx.lineTo(base.x + side.x, base.y + side.y);
+    ctx.lineTo(base.x - side.x, base.y - side.y);
+    ctx.closePath();
+    ctx.fill();
+    ctx.restore();
+  }
+}
@@ -57,6 +57,17 @@ export class Polygon {
     return this.points;
   }
 
+  /**
+   * get the sides of this polygon, including the one from the last point back
+   * to the first
+   */
+  public getEdges(): Line[] {
+    if (this.points.length < 2) return [];
+    return this.points.map(
+      (p, i) => new Line(p, this.points[(i + 1) % this.points.length])
+    );
+  }
+
   /**
    * Tests whether a point is inside the polygon by drawing a ray from the
    * point to infinity and counting the number of edges of the polygon it
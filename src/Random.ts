@@ -0,0 +1,85 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * A small seedable pseudorandom number generator, using the mulberry32
+ * algorithm. Two generators with the same seed produce the same numbers
+ */
+export class Random {
+  /** internal 32-bit state */
+  private state: number;
+
+  /**
+   * @param seed starting seed, random by default
+   */
+  public constructor(seed: number = Math.floor(Math.random() * 2 ** 32)) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * restarts the sequence of numbers from a seed
+   * @param seed the new seed
+   */
+  public seed(seed: number): void {
+    this.state = seed >>> 0;
+  }
+
+  /** get a random number from 0 (inclusive) to 1 (exclusive) */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * get a random integer
+   * @param min lowest possible value
+   * @param max highest possible value
+   */
+  public int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * get a random element of an array
+   * @param array the array to pick from, which must not be empty
+   */
+  public pick<T>(array: T[]): T {
+    return array[this.int(0, array.length - 1)];
+  }
+
+  /**
+   * shuffles an array using the Fisher-Yates algorithm, so every order is
+   * equally likely
+   * @param array the array to shuffle
+   * @return a new shuffled array
+   */
+  public shuffle<T>(array: T[]): T[] {
+    const out = [...array];
+    for (let i = out.length - 1; i > 0; --i) {
+      const j = this.int(0, i);
+      const temp = out[i];
+      out[i] = out[j];
+      out[j] = temp;
+    }
+    return out;
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Manager } from "./Manager";
+import { Random } from "./Random";
+
+/**
+ * separate sequences of random numbers for separate parts of the game, so
+ * that rolling more in one doesn't change what happens in the others
+ */
+export type StreamName = "battle" | "loot" | "encounters" | "ai";
+
+const streamNames: StreamName[] = ["battle", "loot", "encounters", "ai"];
+
+/**
+ * The RandomManager hands out all the game's random numbers. Everything rolled
+ * from its streams can be reproduced by starting from the same seed, which is
+ * logged on start up and can be set with a "seed" URL parameter
+ */
+class RandomManager extends Manager {
+  /** singleton instance */
+  private static _instance = new RandomManager();
+  /** seed all the streams were derived from */
+  private masterSeed: number;
+  /** generators for each stream */
+  private readonly streams: Map<StreamName, Random>;
+  /** whether to log extra info */
+  private noisy = true;
+
+  /**
+   * private because RandomManager is supposed to be a singleton
+   */
+  private constructor() {
+    super();
+    this.setType("Random Manager");
+    this.masterSeed = 0;
+    this.streams = new Map<StreamName, Random>();
+    this.seed(Math.floor(Math.random() * 2 ** 32));
+  }
+
+  /**
+   * Get the singleton instance of this manager
+   */
+  public static getInstance(): RandomManager {
+    return RandomManager._instance;
+  }
+
+  /**
+   * seeds the streams from the page's "seed" URL parameter, if there is one
+   * @override
+   */
+  public startUp(): void {
+    const param = new URLSearchParams(window.location.search).get("seed");
+    if (param !== null && !isNaN(Number(param))) this.seed(Number(param));
+    if (this.noisy) console.log(`RNG: seed ${this.masterSeed}`);
+    super.startUp();
+  }
+
+  /**
+   * restarts every stream from a seed. Each stream gets its own seed derived
+   * from this one
+   * @param seed the new seed
+   */
+  public seed(seed: number): void {
+    this.masterSeed = seed >>> 0;
+    const seeder = new Random(this.masterSeed);
+    for (const name of streamNames) {
+      this.streams.set(name, new Random(seeder.int(0, 2 ** 32 - 1)));
+    }
+  }
+
+  /** get the seed all the streams were derived from */
+  public getSeed(): number {
+    return this.masterSeed;
+  }
+
+  /**
+   * get the generator for one part of the game
+   * @param name which stream to get
+   */
+  public stream(name: StreamName): Random {
+    const stream = this.streams.get(name);
+    if (stream === undefined) {
+      throw new Error("RNG: no stream named " + name);
+    }
+    return stream;
+  }
+}
+
+export const RNG = RandomManager.getInstance();
@@ -30,6 +30,8 @@ export class ResourceManager extends Manager {
   private static _instance = new ResourceManager();
   /** map of sprites, indexed by name */
   private sprites: Map<string, Sprite>;
+  /** map of music tracks, indexed by label */
+  private music: Map<string, HTMLAudioElement>;
   /** what percentage of all resources have loaded */
   private percentLoaded: number;
   /** whether to log extra info */
@@ -42,6 +44,7 @@ export class ResourceManager extends Manager {
     super();
     this.setType("Resource Manager");
     this.sprites = new Map<string, Sprite>();
+    this.music = new Map<string, HTMLAudioElement>();
     this.percentLoaded = 0;
   }
 
@@ -86,6 +89,13 @@ export class ResourceManager extends Manager {
           throw new Error(`RM: failed to load font ${f.filename}`);
         });
     }
+    // start streaming all music
+    for (const m of resources.music) {
+      const audio = new Audio(m.filename);
+      audio.preload = "auto";
+      audio.loop = true;
+      this.music.set(m.label, audio);
+    }
     // load all images
     for (const i of resources.images) {
       // make sure this sprite exists
@@ -161,6 +171,14 @@ export class ResourceManager extends Manager {
     return this.sprites.get(label);
   }
 
+  /**
+   * Gets a music track
+   * @param label name of the track to get
+   */
+  public getMusic(label: string): HTMLAudioElement | undefined {
+    return this.music.get(label);
+  }
+
   public getPercentLoaded(): number {
     return this.percentLoaded;
   }
@@ -20,6 +20,9 @@ import { Sprite } from "./Sprite";
 import { Vector } from "./Vector";
 import { FreeRoamEntity } from "./FreeRoamEntity";
 import { Box } from "./Box";
+import { EncounterZone } from "./EncounterZone";
+import { Polygon } from "./Polygon";
+import { sweepBox } from "./Collision";
 
 export class Background {
   /** sprite for this bgObject */
@@ -64,6 +67,12 @@ export class Room {
   private drawables: (Background | FreeRoamEntity)[];
   /** whether or not the drawables array has been sorted yet  */
   private sorted = false;
+  /** identifier of the arena battles started here are fought in */
+  private arena = "plain";
+  /** regions where random encounters can happen */
+  private readonly encounterZones: EncounterZone[] = [];
+  /** shapes whose edges entities can't walk through */
+  private readonly barriers: Polygon[] = [];
 
   /**
    * Constructs a new room
@@ -83,6 +92,22 @@ export class Room {
     return this.label;
   }
 
+  /**
+   * @return identifier of the arena battles started here are fought in, from
+   * arenas.ts
+   */
+  public getArena(): string {
+    return this.arena;
+  }
+
+  /**
+   * @param arena identifier of the arena battles started here are fought in,
+   * from arenas.ts
+   */
+  public setArena(arena: string): void {
+    this.arena = arena;
+  }
+
   /**
    * Adds a piece of the background for this room
    * @param sprite the sprite of this background piece
@@ -108,6 +133,65 @@ export class Room {
     this.sorted = false;
   }
 
+  /**
+   * Adds an area where the player can run into random encounters. Where zones
+   * overlap, the one added first is used
+   * @param zone the zone to add
+   */
+  public addEncounterZone(zone: EncounterZone): void {
+    this.encounterZones.push(zone);
+  }
+
+  /**
+   * get the encounter zone a point is in, if there is one
+   * @param point a point in room coordinates
+   */
+  public getEncounterZoneAt(point: Vector): EncounterZone | undefined {
+    return this.encounterZones.find(z => z.contains(point));
+  }
+
+  /**
+   * get all the encounter zones in this room
+   */
+  public getEncounterZones(): EncounterZone[] {
+    return this.encounterZones;
+  }
+
+  /**
+   * Adds shapes whose edges entities can't walk through, like the ones drawn
+   * in the room editor
+   * @param barriers the shapes to add
+   */
+  public addBarriers(...barriers: Polygon[]): void {
+    this.barriers.push(...barriers);
+  }
+
+  /**
+   * get all the barriers in this room
+   */
+  public getBarriers(): Polygon[] {
+    return this.barriers;
+  }
+
+  /**
+   * works out how far an entity can move before running into barriers or
+   * solid entities, sliding along them rather than stopping dead
+   * @param entity the entity that's moving
+   * @param velocity how far it's trying to move
+   * @return how far it can actually move
+   */
+  public collide(entity: FreeRoamEntity, velocity: Vector): Vector {
+    const obstacles = this.entities
+      .filter(e => e !== entity && e.solid)
+      .map(e => e.getCollisionBox());
+    return sweepBox(
+      entity.getCollisionBox(),
+      velocity,
+      this.barriers,
+      obstacles
+    );
+  }
+
   /**
    * Adds any number of entities to this room
    * @param ent the entities to add
@@ -117,6 +201,17 @@ export class Room {
     this.sorted = false;
   }
 
+  /**
+   * Removes an entity from this room
+   * @param ent the entity to remove
+   */
+  public removeEntity(ent: FreeRoamEntity): void {
+    const index = this.entities.indexOf(ent);
+    if (index < 0) return;
+    this.entities.splice(index, 1);
+    this.sorted = false;
+  }
+
   /**
    * draw this room to the canvas
    * @param ctx the canvas context to draw on
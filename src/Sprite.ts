@@ -72,6 +72,32 @@ export class Sprite {
     this.frames[index] = frame;
   }
 
+  /** get the number of frames in this sprite */
+  public getFrameCount(): number {
+    return this.frames.length;
+  }
+
+  /** get the time between frames, in milliseconds */
+  public getSlowdown(): number {
+    return this.slowdown;
+  }
+
+  /**
+   * get the frame to show some time into the animation
+   * @param elapsed milliseconds since the animation started
+   * @param loop whether to start over after the last frame, rather than
+   * holding it
+   */
+  public getFrameAt(elapsed: number, loop = true): Frame {
+    if (this.frames.length <= 1 || this.slowdown < 1) return this.frames[0];
+    const index = Math.floor(elapsed / this.slowdown);
+    return this.frames[
+      loop
+        ? index % this.frames.length
+        : Math.min(index, this.frames.length - 1)
+    ];
+  }
+
   /**
    * Should be called very frequently (every draw step even). Returns the
    * current frame that should be drawn.
@@ -65,6 +65,18 @@ class UIManager extends Manager {
     return this.elements.pop();
   }
 
+  /**
+   * remove a particular UI element from the stack, wherever it is
+   * @param elt the element to remove
+   * @return true if the element was found and removed
+   */
+  public remove(elt: UIElement): boolean {
+    const index = this.elements.indexOf(elt);
+    if (index < 0) return false;
+    this.elements.splice(index, 1);
+    return true;
+  }
+
   /**
    * Set the UI element to display in one of the corners
    * @param which which corner to set
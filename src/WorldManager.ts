@@ -19,7 +19,6 @@
 
 import { Manager } from "./Manager";
 import { World } from "./World";
-import { WorldLoading } from "./worlds/WorldLoading";
 import { UM } from "./UIManager";
 
 /**
@@ -87,12 +86,10 @@ class WorldManager extends Manager {
   }
 
   /**
-   * starts up the World Manager, setting the initial World
+   * starts up the World Manager. The Game Manager enters the initial World,
+   * so that this doesn't have to import every world and what they import
    */
   public startUp(): void {
-    // enter initial world
-    this.enterWorld(new WorldLoading());
-
     super.startUp();
     if (this.noisy) console.log("WM: successfully started");
   }
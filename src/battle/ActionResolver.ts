@@ -0,0 +1,335 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ActionChoice, ActionEffect, BattleAction } from "./BattleAction";
+import { Combatant } from "./Combatant";
+import {
+  createStandardCalculator,
+  DamageCalculator,
+  DamageRoll
+} from "./DamageCalculator";
+import { getStatusDefinition } from "./StatusEffect";
+import { RNG } from "../RandomManager";
+import { BattleListener } from "./BattleEvent";
+import { reachableTargets, rowDamageMultiplier } from "./Formation";
+import { AFFINITY_MULTIPLIERS, Affinity } from "./Element";
+import { Enemy, getEnemyDefinition } from "./Enemy";
+import { StandardEnemy } from "./StandardEnemy";
+import { ItemCount } from "../items/Loot";
+
+/** what happened when an action was resolved */
+export type ActionResult = {
+  user: Combatant;
+  action: BattleAction;
+  /** every combatant the action's effects were applied to */
+  targets: Combatant[];
+  /** every damage roll made against a target, in order */
+  damage: { target: Combatant; roll: DamageRoll }[];
+  /** every status successfully applied to a target, in order */
+  statuses: { target: Combatant; status: string }[];
+  /** true if the user successfully escaped the battle */
+  fled: boolean;
+  /** items the user stole */
+  stolen: ItemCount[];
+  /** new combatants to add to the user's side */
+  summoned: Combatant[];
+  /** true if the user left the battle on its own */
+  retreated: boolean;
+  /** reason the action couldn't be performed, if it failed */
+  failure?: string;
+};
+
+/**
+ * Carries out the actions combatants choose on their turns. Resolution runs
+ * in stages: validating the choice, paying its cost, finding every target,
+ * then applying each effect to each target
+ */
+export class ActionResolver {
+  /** whether to log info */
+  public noisy = true;
+  /** decides how much damage damaging effects deal */
+  public damageCalculator: DamageCalculator = createStandardCalculator();
+  /** called with everything that happens while resolving actions */
+  private readonly emit: BattleListener;
+
+  /**
+   * @param emit called with everything that happens while resolving actions
+   */
+  public constructor(emit: BattleListener = (): void => undefined) {
+    this.emit = emit;
+  }
+
+  /**
+   * resolves one action
+   * @param user the combatant performing the action
+   * @param choice the action and its intended target
+   * @param allies combatants on the user's side
+   * @param opponents combatants on the opposing side
+   */
+  public resolve(
+    user: Combatant,
+    choice: ActionChoice,
+    allies: Combatant[],
+    opponents: Combatant[]
+  ): ActionResult {
+    const result: ActionResult = {
+      user: user,
+      action: choice.action,
+      targets: [],
+      damage: [],
+      statuses: [],
+      fled: false,
+      stolen: [],
+      summoned: [],
+      retreated: false
+    };
+
+    result.failure = this.validate(user, choice.action);
+    if (result.failure !== undefined) {
+      if (this.noisy) console.log(`${user.getName()}: ${result.failure}`);
+      this.emit({
+        type: "action failed",
+        user: user,
+        action: choice.action,
+        reason: result.failure
+      });
+      return result;
+    }
+    user.payCost(choice.action.cost);
+    result.targets = this.selectTargets(user, choice, allies, opponents);
+    this.emit({
+      type: "action",
+      user: user,
+      action: choice.action,
+      targets: result.targets
+    });
+    for (const effect of choice.action.effects) {
+      for (const target of result.targets) {
+        this.applyEffect(effect, user, target, result);
+      }
+    }
+    if (this.noisy) {
+      const names = result.targets.map(t => t.getName()).join(", ");
+      console.log(`${user.getName()} used ${choice.action.name} on ${names}`);
+    }
+    return result;
+  }
+
+  /**
+   * checks whether a combatant can use an action
+   * @return a description of why the action can't be used, or undefined if it
+   * can
+   */
+  private validate(user: Combatant, action: BattleAction): string | undefined {
+    if (!user.isAlive()) return "can't act while defeated";
+    if (!user.canAfford(action.cost)) return `can't afford ${action.name}`;
+    const summons = action.effects.some(e => e.kind === "summon");
+    if (summons && !(user instanceof Enemy)) {
+      return `can't use ${action.name}`;
+    }
+    return undefined;
+  }
+
+  /**
+   * expands the target rule of an action into the list of combatants it
+   * affects. Single-target actions may be aimed at either side, but a chosen
+   * target that has already fallen or is out of reach is replaced by the first
+   * reachable combatant on the side the action normally targets
+   */
+  private selectTargets(
+    user: Combatant,
+    choice: ActionChoice,
+    allies: Combatant[],
+    opponents: Combatant[]
+  ): Combatant[] {
+    const living = (side: Combatant[]): Combatant[] =>
+      side.filter(c => c.isAlive());
+    const reachable = (side: Combatant[]): Combatant[] =>
+      reachableTargets(choice.action, living(side));
+    const retarget = (side: Combatant[]): Combatant[] => {
+      if (reachable(side).indexOf(choice.target) > -1) {
+        return [choice.target];
+      }
+      return reachable(side).slice(0, 1);
+    };
+    const single = (side: Combatant[]): Combatant[] =>
+      reachable(allies).indexOf(choice.target) > -1 ||
+      reachable(opponents).indexOf(choice.target) > -1
+        ? [choice.target]
+        : retarget(side);
+
+    switch (choice.action.target) {
+      case "self":
+        return [user];
+      case "single ally":
+        return single(allies);
+      case "all allies":
+        return living(allies);
+      case "single enemy":
+        return single(opponents);
+      case "all enemies":
+        return living(opponents);
+      case "row": {
+        // the target and the combatants directly above and below it
+        const center = retarget(opponents)[0];
+        if (center === undefined) return [];
+        const i = opponents.indexOf(center);
+        return living(opponents.slice(Math.max(i - 1, 0), i + 2));
+      }
+    }
+  }
+
+  /** applies a single effect of an action to a single target */
+  private applyEffect(
+    effect: ActionEffect,
+    user: Combatant,
+    target: Combatant,
+    result: ActionResult
+  ): void {
+    switch (effect.kind) {
+      case "damage": {
+        if (!target.isAlive()) return;
+        const roll = this.damageCalculator(
+          user,
+          target,
+          effect.power,
+          effect.damageType
+        );
+        result.damage.push({ target: target, roll: roll });
+        if (!roll.hit) {
+          this.emit({ type: "miss", user: user, target: target });
+          return;
+        }
+        const element = result.action.element;
+        let affinity: Affinity = "normal";
+        if (element !== undefined) {
+          affinity = target.getAffinity(element);
+          this.emit({
+            type: "affinity",
+            user: user,
+            target: target,
+            element: element,
+            affinity: affinity
+          });
+        }
+        const amount =
+          roll.amount *
+          rowDamageMultiplier(result.action, user, target, effect.damageType) *
+          AFFINITY_MULTIPLIERS[affinity];
+        if (affinity === "immune") return;
+        if (affinity === "absorb") {
+          const healed = target.heal(Math.round(-amount));
+          this.emit({ type: "heal", target: target, amount: healed });
+          return;
+        }
+        const taken = target.takeDamage(amount);
+        user.stats.damageDealt += taken;
+        target.stats.damageTaken += taken;
+        this.emit({
+          type: "damage",
+          user: user,
+          target: target,
+          amount: taken,
+          critical: roll.critical
+        });
+        if (!target.isAlive()) {
+          user.stats.kills++;
+          this.emit({ type: "defeated", combatant: target });
+        }
+        return;
+      }
+      case "heal": {
+        const amount = target.heal(effect.power);
+        this.emit({ type: "heal", target: target, amount: amount });
+        return;
+      }
+      case "restore mp": {
+        const amount = target.restoreMp(effect.power);
+        this.emit({ type: "restore mp", target: target, amount: amount });
+        return;
+      }
+      case "status": {
+        if (RNG.stream("battle").next() >= effect.chance) return;
+        const status = getStatusDefinition(effect.status);
+        if (target.addStatus(status)) {
+          result.statuses.push({ target: target, status: effect.status });
+          this.emit({ type: "status applied", target: target, status: status });
+        }
+        return;
+      }
+      case "cure":
+        if (target.removeStatus(effect.status)) {
+          this.emit({
+            type: "status removed",
+            target: target,
+            status: getStatusDefinition(effect.status)
+          });
+        }
+        return;
+      case "defend":
+        target.defending = true;
+        return;
+      case "change row":
+        target.row = target.row === "front" ? "back" : "front";
+        this.emit({ type: "row changed", combatant: target, row: target.row });
+        return;
+      case "steal": {
+        // only enemies have things to steal, and only once each
+        if (!(target instanceof Enemy) || !target.canBeStolenFrom()) {
+          this.emit({
+            type: "steal",
+            user: user,
+            target: target,
+            item: undefined,
+            empty: true
+          });
+          return;
+        }
+        const loot = RNG.stream("loot");
+        const drop =
+          loot.next() < effect.chance ? target.steal(loot) : undefined;
+        if (drop !== undefined) {
+          result.stolen.push({ item: drop.item, count: drop.count ?? 1 });
+        }
+        this.emit({
+          type: "steal",
+          user: user,
+          target: target,
+          item: drop?.item,
+          empty: false
+        });
+        return;
+      }
+      case "summon": {
+        const level = user instanceof StandardEnemy ? user.level : 1;
+        result.summoned.push(
+          new StandardEnemy(getEnemyDefinition(effect.enemy), level)
+        );
+        return;
+      }
+      case "retreat":
+        result.retreated = true;
+        return;
+      case "flee":
+        result.fled = RNG.stream("battle").next() < effect.chance;
+        this.emit({ type: "flee", user: user, success: result.fled });
+        return;
+    }
+  }
+}
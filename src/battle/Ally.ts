@@ -0,0 +1,67 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Combatant } from "./Combatant";
+import { ActionChoice } from "./BattleAction";
+import { CommandMenu } from "./CommandMenu";
+
+/**
+ * Any participant in a battle on the player's side. The player chooses what
+ * allies do through the battle command menu
+ */
+export abstract class Ally extends Combatant {
+  /** the open command menu, if the player is choosing for this ally */
+  private menu: CommandMenu | undefined = undefined;
+
+  /**
+   * opens the command menu and waits for the player to choose
+   * @override
+   */
+  public async takeTurn(
+    allies: Combatant[],
+    opponents: Combatant[]
+  ): Promise<ActionChoice> {
+    this.menu = new CommandMenu(this, allies, opponents);
+    const choice = await this.menu.open();
+    this.menu = undefined;
+    return choice;
+  }
+
+  /**
+   * closes the command menu without choosing
+   * @override
+   */
+  public interruptTurn(): void {
+    if (this.menu !== undefined) this.menu.close();
+    this.menu = undefined;
+  }
+
+  /**
+   * returns true while the command menu is open for this ally
+   * @override
+   */
+  public isChoosing(): boolean {
+    return this.menu !== undefined && this.menu.isOpen();
+  }
+
+  /** @override */
+  public isEnemy(): boolean {
+    return false;
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { arenas } from "./arenas";
+import { RM } from "../ResourceManager";
+import { CANV_SIZE } from "../DisplayManager";
+
+/** one full-screen image making up part of an arena's scenery */
+export type ArenaLayer = {
+  /** label of the sprite to draw */
+  sprite: string;
+  /**
+   * pixels per second the layer scrolls to the right, wrapping around, for
+   * things like drifting clouds. Negative values scroll left
+   */
+  drift?: number;
+  /** opacity from 0 to 1, defaults to 1 */
+  alpha?: number;
+  /** if true the layer is drawn in front of the combatants */
+  foreground?: boolean;
+};
+
+/** small shapes floating around an arena, like dust or falling leaves */
+export type AmbientParticles = {
+  /** how many particles are on screen at once */
+  count: number;
+  color: string;
+  /** radius of each particle, in pixels */
+  size: number;
+  /** pixels per second each particle moves */
+  velocity: { x: number; y: number };
+  /** pixels each particle sways from side to side */
+  sway?: number;
+};
+
+/**
+ * A data definition of the place a battle is fought in, like a cave or a
+ * field. Arenas are listed in arenas.ts and referenced by id from rooms and
+ * encounters
+ */
+export type ArenaDefinition = {
+  /** unique string identifier */
+  id: string;
+  /** displayed name of the arena */
+  name: string;
+  /** scenery, drawn in order from back to front */
+  layers: ArenaLayer[];
+  /** labels of the platform sprites each side stands on */
+  platforms: { left: string; right: string };
+  ambient?: AmbientParticles[];
+  /**
+   * label of the music track to play during the battle, from the music in
+   * resources.ts
+   */
+  music?: string;
+};
+
+/** one moving particle */
+type Particle = {
+  x: number;
+  y: number;
+  phase: number;
+  style: AmbientParticles;
+};
+
+/**
+ * get an arena definition by its identifier
+ * @param id the identifier of the arena in arenas.ts
+ */
+export const getArenaDefinition = (id: string): ArenaDefinition => {
+  const def = arenas[id];
+  if (def === undefined) {
+    throw new Error("Arena: no arena with id " + id);
+  }
+  return def;
+};
+
+/**
+ * The scenery a battle is drawn in front of, along with its ambient
+ * animations. Each battle needs its own Arena, since it keeps track of where
+ * the moving parts are
+ */
+export class Arena {
+  /** the data this arena follows */
+  public readonly definition: ArenaDefinition;
+  /** seconds since the battle started */
+  private time: number;
+  /** ambient particles on screen */
+  private readonly particles: Particle[];
+
+  /**
+   * @param definition the data this arena follows
+   */
+  public constructor(definition: ArenaDefinition) {
+    this.definition = definition;
+    this.time = 0;
+    this.particles = [];
+    // scatter the particles so the screen doesn't start empty. They're only
+    // decoration, so they don't use a seeded stream
+    for (const style of definition.ambient ?? []) {
+      for (let i = 0; i < style.count; ++i) {
+        this.particles.push({
+          x: Math.random() * CANV_SIZE,
+          y: Math.random() * CANV_SIZE,
+          phase: Math.random() * Math.PI * 2,
+          style: style
+        });
+      }
+    }
+  }
+
+  /**
+   * get the label of the platform sprite for one side
+   * @param side which side of the battle
+   */
+  public getPlatform(side: "left" | "right"): string {
+    return this.definition.platforms[side];
+  }
+
+  /**
+   * moves the ambient animations forward in time
+   * @param ms milliseconds that have passed
+   */
+  public step(ms: number): void {
+    const seconds = ms / 1000;
+    this.time += seconds;
+    const wrap = (n: number): number =>
+      ((n % CANV_SIZE) + CANV_SIZE) % CANV_SIZE;
+    for (const p of this.particles) {
+      p.x = wrap(p.x + p.style.velocity.x * seconds);
+      p.y = wrap(p.y + p.style.velocity.y * seconds);
+    }
+  }
+
+  /** draws the layers and particles behind the combatants */
+  public drawBackground(ctx: CanvasRenderingContext2D): void {
+    for (const layer of this.definition.layers) {
+      if (!layer.foreground) this.drawLayer(ctx, layer);
+    }
+    ctx.save();
+    for (const p of this.particles) {
+      const sway = Math.sin(this.time * 2 + p.phase) * (p.style.sway ?? 0);
+      ctx.fillStyle = p.style.color;
+      ctx.beginPath();
+      ctx.arc(p.x + sway, p.y, p.style.size, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    ctx.restore();
+  }
+
+  /** draws the layers in front of the combatants */
+  public drawForeground(ctx: CanvasRenderingContext2D): void {
+    for (const layer of this.definition.layers) {
+      if (layer.foreground) this.drawLayer(ctx, layer);
+    }
+  }
+
+  /** draws one layer over the whole screen, scrolled by its drift */
+  private drawLayer(ctx: CanvasRenderingContext2D, layer: ArenaLayer): void {
+    const sprite = RM.getSprite(layer.sprite);
+    if (sprite === undefined) return;
+    const img = sprite.getCurrentFrame().getImage();
+    const drift = (layer.drift ?? 0) * this.time;
+    const shift = ((drift % CANV_SIZE) + CANV_SIZE) % CANV_SIZE;
+    ctx.save();
+    ctx.globalAlpha = layer.alpha ?? 1;
+    ctx.drawImage(img, shift, 0, CANV_SIZE, CANV_SIZE);
+    if (shift > 0) {
+      // draw again to fill the gap left by scrolling, so it wraps around
+      ctx.drawImage(img, shift - CANV_SIZE, 0, CANV_SIZE, CANV_SIZE);
+    }
+    ctx.restore();
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Combatant } from "./Combatant";
+import { ActionChoice } from "./BattleAction";
+import { Behaviour, getBehaviourDefinition } from "./Behaviour";
+import { Vector } from "../Vector";
+
+/**
+ * A combatant on the player's side that fights on its own by following a
+ * behaviour, like a guest character. Since it never opens the command menu it
+ * can also fight in battles that aren't shown on screen, like simulated ones
+ */
+export class AutoAlly extends Combatant {
+  /** decides what this ally does on its turn */
+  protected behaviour: Behaviour;
+
+  /**
+   * @param name displayed name of this ally
+   * @param behaviour identifier of the behaviour this ally follows
+   */
+  public constructor(name = "Auto Ally", behaviour = "brute") {
+    super();
+    this.setName(name);
+    this.behaviour = new Behaviour(getBehaviourDefinition(behaviour));
+  }
+
+  /**
+   * follows this ally's behaviour to choose an action
+   * @override
+   */
+  public async takeTurn(
+    allies: Combatant[],
+    opponents: Combatant[]
+  ): Promise<ActionChoice> {
+    return this.behaviour.choose(this, allies, opponents);
+  }
+
+  /** @override */
+  public isEnemy(): boolean {
+    return false;
+  }
+
+  public draw(
+    ctx: CanvasRenderingContext2D,
+    center: Vector,
+    maxHeight: number
+  ): void {
+    ctx.save();
+    ctx.fillStyle = "green";
+    ctx.fillRect(center.x - 40, center.y - maxHeight / 2, 80, maxHeight);
+    ctx.restore();
+  }
+}
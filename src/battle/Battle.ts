@@ -0,0 +1,821 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Combatant, CombatantStats } from "./Combatant";
+import { BattleAction } from "./BattleAction";
+import { ActionResolver } from "./ActionResolver";
+import { DamageCalculator } from "./DamageCalculator";
+import { Enemy, getEnemyDefinition } from "./Enemy";
+import { StandardEnemy } from "./StandardEnemy";
+import { BattleEvent, BattleListener } from "./BattleEvent";
+import { StatusEffect } from "./StatusEffect";
+import { RNG } from "../RandomManager";
+import { ItemCount, mergeItems, rollDrops, rollGold } from "../items/Loot";
+
+/** how a battle ended, from the player's point of view */
+export type BattleOutcome = "victory" | "defeat" | "escape";
+
+/** everything shown on the results screen after a battle */
+export type BattleResults = {
+  outcome: BattleOutcome;
+  /** total experience earned */
+  xp: number;
+  /** gold earned */
+  gold: number;
+  /**
+   * items earned, with the same item merged into one entry. Stolen items are
+   * kept even after escaping, but drops are only earned by winning
+   */
+  items: ItemCount[];
+  /** per-battle statistics of each combatant on the player's side */
+  combatants: { name: string; stats: CombatantStats }[];
+};
+
+/**
+ * how turns are taken. "turn" has everyone act once per round in order of
+ * speed, "atb" (active time battle) has each combatant act whenever its time
+ * gauge fills up, at a rate based on its speed
+ */
+export type BattleMode = "turn" | "atb";
+
+/**
+ * which side gets a head start. With a "first strike" only the player's side
+ * acts in the first round, and in an "ambush" only the enemies do
+ */
+export type BattleAdvantage = "normal" | "first strike" | "ambush";
+
+/** optional rules for how a battle plays out */
+export type BattleRules = {
+  /** how turns are taken. Defaults to "turn" */
+  mode?: BattleMode;
+  /**
+   * in ATB mode, "wait" stops time while the player is choosing a command and
+   * "active" keeps it running. Defaults to "wait"
+   */
+  atbWait?: "wait" | "active";
+  /** which side gets a head start. Defaults to "normal" */
+  advantage?: BattleAdvantage;
+};
+
+/** the most combatants that can fight on one side at once */
+export const MAX_SIDE_SIZE = 5;
+
+/** fraction of a time gauge filled each step, per point of speed */
+const ATB_FILL_RATE = 1 / 900;
+/**
+ * steps in an ATB round, for counting down statuses that last rounds. About as
+ * long as a combatant with 10 speed takes to fill its gauge
+ */
+const ATB_ROUND_STEPS = 90;
+
+/**
+ * The rules of a battle, without any drawing or input. WorldBattle shows a
+ * Battle on screen, and the battle simulator runs them on their own
+ */
+export class Battle {
+  /** whether to log info */
+  private noisy = true;
+  /**
+   * participants on the left side of the screen, top to bottom. Changed in
+   * place as combatants join and leave
+   */
+  private readonly leftCombatants: Array<Combatant>;
+  /**
+   * participants on the right side of the screen, top to bottom. Changed in
+   * place as combatants join and leave
+   */
+  private readonly rightCombatants: Array<Combatant>;
+  /** combatants who left partway through, or made room for newcomers */
+  private readonly departed: Array<Combatant>;
+  /** queue of participants in turn order for this round */
+  private upNext: Array<Combatant>;
+  /** random ranks that break ties between equal speeds this round */
+  private tieBreakers: Map<Combatant, number>;
+  /**
+   * tie breakers for the next round, rolled a round ahead so the next round's
+   * order can be previewed
+   */
+  private nextTieBreakers: Map<Combatant, number>;
+  /** in ATB mode, how full each combatant's time gauge is, from 0 to 1 */
+  private readonly gauges: Map<Combatant, number>;
+  /** in ATB mode, combatants with full gauges waiting to act, in order */
+  private ready: Array<Combatant>;
+  /** in ATB mode, combatants in the middle of their turns */
+  private acting: Array<Combatant>;
+  /** in ATB mode, steps since the last round ended */
+  private roundTimer: number;
+  /** number of the current round, in turn mode */
+  private round: number;
+  /** number of turns taken so far */
+  private turns: number;
+  /** functions called with everything that happens in this battle */
+  private readonly listeners: BattleListener[];
+  /** shows events to the player, resolving once they've been shown */
+  private presenter: (events: BattleEvent[]) => Promise<void>;
+  /** events that haven't been passed to the presenter yet */
+  private unpresented: BattleEvent[];
+  /** carries out the actions chosen by combatants */
+  private readonly resolver: ActionResolver;
+  /** optional rules for this battle */
+  private readonly rules: BattleRules;
+  /** how the battle ended, or undefined if it is still going */
+  private outcome: BattleOutcome | undefined;
+  /** true if the battle was stopped without an outcome */
+  private halted: boolean;
+  /** items the player's side has stolen */
+  private stolen: ItemCount[];
+  /** the results, once they've been gathered */
+  private results: BattleResults | undefined;
+
+  /**
+   * @param leftCombatants must contain 1-5 Combatants. The battle changes
+   * this array as combatants join and leave
+   * @param rightCombatants must contain 1-5 Combatants. The battle changes
+   * this array as combatants join and leave
+   * @param rules optional rules for this battle
+   */
+  public constructor(
+    leftCombatants: Array<Combatant>,
+    rightCombatants: Array<Combatant>,
+    rules: BattleRules = {}
+  ) {
+    if (leftCombatants.length < 1 || leftCombatants.length > MAX_SIDE_SIZE) {
+      throw new Error(
+        `Battle constructor: leftCombatants must have length ` +
+          `1-${MAX_SIDE_SIZE}, not ${leftCombatants.length}`
+      );
+    }
+    if (rightCombatants.length < 1 || rightCombatants.length > MAX_SIDE_SIZE) {
+      throw new Error(
+        `Battle constructor: rightCombatants must have length ` +
+          `1-${MAX_SIDE_SIZE}, not ${rightCombatants.length}`
+      );
+    }
+    this.leftCombatants = leftCombatants;
+    this.rightCombatants = rightCombatants;
+    this.departed = [];
+    this.upNext = [];
+    this.tieBreakers = new Map<Combatant, number>();
+    this.nextTieBreakers = this.rollTieBreakers();
+    this.gauges = new Map<Combatant, number>();
+    this.ready = [];
+    this.acting = [];
+    this.roundTimer = 0;
+    this.round = 0;
+    this.turns = 0;
+    this.listeners = [];
+    this.presenter = (): Promise<void> => Promise.resolve();
+    this.unpresented = [];
+    this.resolver = new ActionResolver(this.emit.bind(this));
+    this.rules = rules;
+    this.outcome = undefined;
+    this.halted = false;
+    this.stolen = [];
+    this.results = undefined;
+  }
+
+  /**
+   * turns logging info on or off, for this battle and its action resolution
+   * @param noisy whether to log info
+   */
+  public setNoisy(noisy: boolean): void {
+    this.noisy = noisy;
+    this.resolver.noisy = noisy;
+  }
+
+  /**
+   * replace the formula used to calculate damage in this battle
+   * @param calculator the new damage formula
+   */
+  public setDamageCalculator(calculator: DamageCalculator): void {
+    this.resolver.damageCalculator = calculator;
+  }
+
+  /**
+   * registers a function to call with everything that happens in this battle
+   * @param listener the function to call with each event
+   */
+  public addListener(listener: BattleListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * stops calling a function registered with addListener()
+   * @param listener the function to stop calling
+   * @return false if the function wasn't registered
+   */
+  public removeListener(listener: BattleListener): boolean {
+    const i = this.listeners.indexOf(listener);
+    if (i < 0) return false;
+    this.listeners.splice(i, 1);
+    return true;
+  }
+
+  /**
+   * sets a function that shows what happened, such as by playing animations.
+   * The battle waits for it after the start of each turn and after each
+   * action. Battles that aren't shown don't need one
+   * @param presenter receives the events since it was last called, and
+   * resolves once they've been shown
+   */
+  public setPresenter(
+    presenter: (events: BattleEvent[]) => Promise<void>
+  ): void {
+    this.presenter = presenter;
+  }
+
+  /**
+   * sends an event to every listener
+   * @param event something that happened in this battle
+   */
+  private emit(event: BattleEvent): void {
+    this.unpresented.push(event);
+    for (const listener of this.listeners) listener(event);
+  }
+
+  /** passes the events since the last call to the presenter */
+  private present(): Promise<void> {
+    const events = this.unpresented;
+    this.unpresented = [];
+    return this.presenter(events);
+  }
+
+  /**
+   * sends events for statuses that wore off a combatant
+   * @param c the combatant whose statuses wore off
+   * @param expired the statuses that wore off
+   */
+  private emitExpired(c: Combatant, expired: StatusEffect[]): void {
+    for (const status of expired) {
+      this.emit({
+        type: "status removed",
+        target: c,
+        status: status.definition
+      });
+    }
+  }
+
+  /** counts down every combatant's statuses that last rounds */
+  private endRound(): void {
+    for (const c of this.allCombatants()) this.emitExpired(c, c.endRound());
+  }
+
+  /** get participants on the left side, top to bottom */
+  public getLeftCombatants(): Array<Combatant> {
+    return this.leftCombatants;
+  }
+
+  /** get participants on the right side, top to bottom */
+  public getRightCombatants(): Array<Combatant> {
+    return this.rightCombatants;
+  }
+
+  /** get every participant, left side first */
+  public allCombatants(): Array<Combatant> {
+    return [...this.leftCombatants, ...this.rightCombatants];
+  }
+
+  /**
+   * get the combatants who left partway through, including defeated ones
+   * that made room for newcomers
+   */
+  public getDeparted(): Array<Combatant> {
+    return [...this.departed];
+  }
+
+  /**
+   * brings a new combatant into the battle partway through. In turn mode it
+   * acts this round if it's fast enough, and in ATB mode its gauge starts
+   * empty. If the side is full, the newcomer takes the place of a defeated
+   * combatant
+   * @param c the combatant to add, which mustn't already be in the battle
+   * @param side which side it fights on
+   * @param index where on the side it goes, from the top. Defaults to the
+   * bottom
+   * @return false if there was no room on the side
+   */
+  public addCombatant(
+    c: Combatant,
+    side: "left" | "right",
+    index?: number
+  ): boolean {
+    if (this.outcome !== undefined || this.allCombatants().indexOf(c) > -1) {
+      return false;
+    }
+    const combatants =
+      side === "left" ? this.leftCombatants : this.rightCombatants;
+    if (combatants.length >= MAX_SIDE_SIZE) {
+      const fallen = combatants.find(f => !f.isAlive());
+      if (fallen === undefined) return false;
+      index = index ?? combatants.indexOf(fallen);
+      this.detach(fallen);
+    }
+    index = Math.min(index ?? combatants.length, combatants.length);
+    combatants.splice(index, 0, c);
+    c.animation.facing = side === "left" ? 1 : -1;
+    // newcomers lose ties to everyone already here
+    this.tieBreakers.set(c, this.tieBreakers.size);
+    this.nextTieBreakers.set(c, this.nextTieBreakers.size);
+    if (this.rules.mode === "atb") {
+      this.gauges.set(c, 0);
+    } else if (
+      this.upNext.length > 0 &&
+      (this.round > 1 || this.hasAdvantage(c))
+    ) {
+      // the combatant acting now stays first, and the newcomer is sorted in
+      // with whoever hasn't acted yet
+      const [current, ...rest] = this.upNext;
+      this.upNext = [
+        current,
+        ...Battle.sortBySpeed([...rest, c], this.tieBreakers)
+      ];
+    }
+    this.emit({ type: "joined", combatant: c, side: side });
+    return true;
+  }
+
+  /**
+   * takes a combatant out of the battle partway through, without ending it.
+   * It's still counted in the results, but loses any turn it was waiting for
+   * @param c a combatant in this battle
+   * @return false if the combatant wasn't in the battle
+   */
+  public removeCombatant(c: Combatant): boolean {
+    if (!this.detach(c)) return false;
+    this.emit({ type: "left battle", combatant: c });
+    return true;
+  }
+
+  /**
+   * quietly takes a combatant off its side and out of the turn order
+   * @param c a combatant in this battle
+   * @return false if the combatant wasn't in the battle
+   */
+  private detach(c: Combatant): boolean {
+    const combatants =
+      this.leftCombatants.indexOf(c) > -1
+        ? this.leftCombatants
+        : this.rightCombatants;
+    const i = combatants.indexOf(c);
+    if (i < 0) return false;
+    combatants.splice(i, 1);
+    this.departed.push(c);
+    // the combatant acting now stays at the front until its turn is done
+    this.upNext = this.upNext.filter((u, j) => u !== c || j === 0);
+    this.ready = this.ready.filter(r => r !== c);
+    if (this.acting.indexOf(c) > -1) {
+      c.interruptTurn();
+      this.acting = this.acting.filter(a => a !== c);
+    }
+    this.gauges.delete(c);
+    return true;
+  }
+
+  /**
+   * replaces defeated enemies that split apart, like a big slime, with the
+   * enemies they split into
+   */
+  private splitDefeated(): void {
+    for (const c of this.allCombatants()) {
+      if (!(c instanceof Enemy) || c.isAlive() || c.splitInto.length === 0) {
+        continue;
+      }
+      const ids = c.splitInto;
+      c.splitInto = [];
+      const side = this.leftCombatants.indexOf(c) > -1 ? "left" : "right";
+      const combatants = this.alliesOf(c);
+      const index = combatants.indexOf(c);
+      const level = c instanceof StandardEnemy ? c.level : 1;
+      this.detach(c);
+      ids.forEach((id, i) =>
+        this.addCombatant(
+          new StandardEnemy(getEnemyDefinition(id), level),
+          side,
+          index + i
+        )
+      );
+    }
+  }
+
+  /**
+   * get the combatants on the same side as a combatant, including itself
+   * @param c a combatant in this battle
+   */
+  private alliesOf(c: Combatant): Array<Combatant> {
+    return this.leftCombatants.indexOf(c) > -1
+      ? this.leftCombatants
+      : this.rightCombatants;
+  }
+
+  /**
+   * get the combatants on the opposite side from a combatant
+   * @param c a combatant in this battle
+   */
+  private opponentsOf(c: Combatant): Array<Combatant> {
+    return this.leftCombatants.indexOf(c) > -1
+      ? this.rightCombatants
+      : this.leftCombatants;
+  }
+
+  /**
+   * sorts combatants in order of their speed after status effects
+   * @param combatants the combatants to sort
+   * @param tieBreakers random ranks for ordering equal speeds
+   * @return a new sorted array
+   */
+  private static sortBySpeed(
+    combatants: Array<Combatant>,
+    tieBreakers: Map<Combatant, number>
+  ): Array<Combatant> {
+    return [...combatants].sort((a, b) => {
+      const diff = b.getEffectiveTraits().speed - a.getEffectiveTraits().speed;
+      if (diff !== 0) return diff;
+      // equal speeds get sorted randomly
+      return (tieBreakers.get(a) ?? 0) - (tieBreakers.get(b) ?? 0);
+    });
+  }
+
+  /** ranks every combatant in a random order, for breaking ties */
+  private rollTieBreakers(): Map<Combatant, number> {
+    const tieBreakers = new Map<Combatant, number>();
+    RNG.stream("battle")
+      .shuffle(this.allCombatants())
+      .forEach((c, i) => tieBreakers.set(c, i));
+    return tieBreakers;
+  }
+
+  /** clears upNext, then populates it with combatants in speed order */
+  private calculateTurnOrder(): void {
+    this.tieBreakers = this.nextTieBreakers;
+    this.nextTieBreakers = this.rollTieBreakers();
+    this.upNext = Battle.sortBySpeed(this.allCombatants(), this.tieBreakers);
+    if (this.round === 0 && (this.rules.advantage ?? "normal") !== "normal") {
+      // only the side with the advantage acts in the first round
+      this.upNext = this.upNext.filter(c => this.hasAdvantage(c));
+    }
+    this.emit({ type: "round start", round: ++this.round });
+  }
+
+  /**
+   * returns true if a combatant is on the side this battle's advantage favors
+   * @param c a combatant in this battle
+   */
+  private hasAdvantage(c: Combatant): boolean {
+    switch (this.rules.advantage ?? "normal") {
+      case "first strike":
+        return !c.isEnemy();
+      case "ambush":
+        return c.isEnemy();
+      case "normal":
+        return true;
+    }
+  }
+
+  /**
+   * get the living combatants still to act this round, starting with the one
+   * whose turn it is
+   */
+  public getUpNext(): Array<Combatant> {
+    if (this.rules.mode === "atb") {
+      // whoever is closest to filling their gauge goes first
+      const timeLeft = (c: Combatant): number =>
+        (1 - (this.gauges.get(c) ?? 0)) /
+        Math.max(c.getEffectiveTraits().speed, 0.001);
+      const waiting = this.allCombatants()
+        .filter(c => this.ready.indexOf(c) < 0 && this.acting.indexOf(c) < 0)
+        .sort((a, b) => timeLeft(a) - timeLeft(b));
+      return [...this.acting, ...this.ready, ...waiting].filter(c =>
+        c.isAlive()
+      );
+    }
+    return this.upNext.filter(c => c.isAlive());
+  }
+
+  /**
+   * predicts the order living combatants will act in next round, based on
+   * their current speeds. Empty in ATB mode, which has no turn order rounds
+   */
+  public previewNextRound(): Array<Combatant> {
+    if (this.rules.mode === "atb") return [];
+    return Battle.sortBySpeed(
+      this.allCombatants().filter(c => c.isAlive()),
+      this.nextTieBreakers
+    );
+  }
+
+  /**
+   * get how full a combatant's time gauge is, from 0 to 1, or undefined if
+   * this battle isn't in ATB mode
+   * @param c a combatant in this battle
+   */
+  public getGauge(c: Combatant): number | undefined {
+    if (this.rules.mode !== "atb") return undefined;
+    return this.gauges.get(c) ?? 0;
+  }
+
+  /** get how the battle ended, or undefined if it is still going */
+  public getOutcome(): BattleOutcome | undefined {
+    return this.outcome;
+  }
+
+  /** get the number of turns taken so far */
+  public getTurnCount(): number {
+    return this.turns;
+  }
+
+  /**
+   * begins the battle. In turn mode turns follow each other on their own, in
+   * ATB mode time only passes when step() is called
+   */
+  public start(): void {
+    this.emit({ type: "battle start" });
+    const advantage = this.rules.advantage ?? "normal";
+    if (advantage !== "normal") {
+      this.emit({ type: "advantage", advantage: advantage });
+    }
+    if (this.rules.mode === "atb") {
+      // gauges start partly filled so that not everyone acts at once, unless
+      // one side has the advantage
+      for (const c of this.allCombatants()) {
+        const gauge = RNG.stream("battle").next() * 0.25;
+        this.gauges.set(
+          c,
+          advantage === "normal" ? gauge : this.hasAdvantage(c) ? 1 : 0
+        );
+      }
+      return;
+    }
+    this.calculateTurnOrder();
+    this.takeTurn();
+  }
+
+  /**
+   * ends the battle if either side has been wiped out
+   * @return true if the battle is over
+   */
+  private checkOutcome(): boolean {
+    if (this.outcome !== undefined) return true;
+    if (!this.allCombatants().some(c => c.isEnemy() && c.isAlive())) {
+      // no enemies left, the player won
+      this.end("victory");
+      return true;
+    }
+    if (!this.allCombatants().some(c => !c.isEnemy())) {
+      // every ally left without being defeated
+      this.end("escape");
+      return true;
+    }
+    if (!this.allCombatants().some(c => !c.isEnemy() && c.isAlive())) {
+      // no allies left, the player lost
+      this.end("defeat");
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * the combatant who is up next chooses an action, which is then resolved
+   * before moving on to the next turn
+   */
+  private takeTurn(): void {
+    if (this.halted || this.checkOutcome()) return;
+    if (this.upNext.length === 0) {
+      // end of round
+      this.endRound();
+      this.calculateTurnOrder();
+    }
+    const current = this.upNext[0];
+    const next = (): void => {
+      // a combatant that left during its turn has already been taken out
+      if (this.upNext[0] === current) this.upNext.shift();
+      // speeds may have changed, so reorder whoever hasn't acted yet
+      this.upNext = Battle.sortBySpeed(this.upNext, this.tieBreakers);
+      this.takeTurn();
+    };
+    if (!current.isAlive()) {
+      // defeated combatants lose their turns
+      next();
+      return;
+    }
+    this.playTurn(current, next);
+  }
+
+  /**
+   * has a combatant take its turn, from start of turn status effects to
+   * resolving its chosen action
+   * @param current the combatant whose turn it is
+   * @param done called when the turn is over, unless the battle ended
+   */
+  private playTurn(current: Combatant, done: () => void): void {
+    this.turns++;
+    // defending only lasts until the defender's next turn
+    current.defending = false;
+    const start = current.startTurn();
+    if (start.hpChange !== 0) {
+      this.emit({
+        type: "status tick",
+        combatant: current,
+        hpChange: start.hpChange
+      });
+    }
+    if (!current.isAlive()) {
+      this.emit({ type: "defeated", combatant: current });
+      this.splitDefeated();
+    } else if (start.skip) {
+      this.emit({ type: "turn skipped", combatant: current });
+    }
+    const allies = this.alliesOf(current);
+    const opponents = this.opponentsOf(current);
+    const stopped = (): boolean => this.outcome !== undefined || this.halted;
+    this.present().then(() => {
+      if (stopped()) return;
+      if (start.skip || !current.isAlive()) {
+        // stunned or finished off by poison
+        this.emitExpired(current, current.endTurn());
+        done();
+        return;
+      }
+      return current
+        .takeTurn(
+          allies.filter(c => c.isAlive()),
+          opponents.filter(c => c.isAlive())
+        )
+        .then(choice => {
+          if (stopped()) return;
+          const result = this.resolver.resolve(
+            current,
+            choice,
+            allies,
+            opponents
+          );
+          if (!current.isEnemy()) this.stolen.push(...result.stolen);
+          this.arrive(current, result.action, result.summoned);
+          if (result.retreated) this.removeCombatant(current);
+          this.splitDefeated();
+          // wait for the action to be shown before moving on
+          return this.present().then(() => {
+            if (stopped()) return;
+            if (result.fled && !current.isEnemy()) {
+              this.end("escape");
+              return;
+            }
+            this.emitExpired(current, current.endTurn());
+            done();
+          });
+        });
+    });
+  }
+
+  /**
+   * adds combatants summoned by an action to the summoner's side
+   * @param user the combatant that summoned them
+   * @param action the action that summoned them
+   * @param summoned the new combatants
+   */
+  private arrive(
+    user: Combatant,
+    action: BattleAction,
+    summoned: Combatant[]
+  ): void {
+    const side = this.leftCombatants.indexOf(user) > -1 ? "left" : "right";
+    for (const c of summoned) {
+      if (!this.addCombatant(c, side)) {
+        this.emit({
+          type: "action failed",
+          user: user,
+          action: action,
+          reason: "has no room for more allies"
+        });
+      }
+    }
+  }
+
+  /** in ATB mode, fills time gauges and ends rounds as time passes */
+  private passTime(): void {
+    if (++this.roundTimer >= ATB_ROUND_STEPS) {
+      this.roundTimer = 0;
+      this.endRound();
+    }
+    for (const c of this.allCombatants()) {
+      if (!c.isAlive()) {
+        this.gauges.set(c, 0);
+        continue;
+      }
+      if (this.ready.indexOf(c) > -1 || this.acting.indexOf(c) > -1) continue;
+      const gauge =
+        (this.gauges.get(c) ?? 0) +
+        c.getEffectiveTraits().speed * ATB_FILL_RATE;
+      this.gauges.set(c, Math.min(gauge, 1));
+      if (gauge >= 1) this.ready.push(c);
+    }
+    this.ready = this.ready.filter(c => c.isAlive());
+  }
+
+  /**
+   * in ATB mode, starts the turn of the first combatant ready to act. The
+   * player chooses for one ally at a time, but in active mode enemies may act
+   * while the player is choosing
+   */
+  private startReadyTurn(): void {
+    const current = this.ready.find(
+      c => !this.acting.some(a => a.isEnemy() === c.isEnemy())
+    );
+    if (current === undefined) return;
+    this.ready.splice(this.ready.indexOf(current), 1);
+    this.acting.push(current);
+    this.playTurn(current, () => {
+      this.acting = this.acting.filter(c => c !== current);
+      this.gauges.set(current, 0);
+    });
+  }
+
+  /**
+   * ends the battle
+   * @param outcome how the battle ended
+   */
+  private end(outcome: BattleOutcome): void {
+    if (this.noisy) console.log(`Battle over: ${outcome}`);
+    this.outcome = outcome;
+    this.upNext = [];
+    for (const c of this.acting) c.interruptTurn();
+    this.acting = [];
+    this.ready = [];
+    this.emit({ type: "battle end", outcome: outcome });
+  }
+
+  /**
+   * stops the battle where it is, without an outcome, so that no more turns
+   * are taken
+   */
+  public halt(): void {
+    this.halted = true;
+    for (const c of this.acting) c.interruptTurn();
+    this.acting = [];
+  }
+
+  /**
+   * gathers the experience, gold, items, and statistics earned in this
+   * battle. Drops are rolled from the "loot" stream the first time this is
+   * called after the battle ends, and later calls return the same results
+   */
+  public collectResults(): BattleResults {
+    if (this.results !== undefined) return this.results;
+    const results: BattleResults = {
+      outcome: this.outcome ?? "defeat",
+      xp: 0,
+      gold: 0,
+      items: [],
+      combatants: [...this.allCombatants(), ...this.departed]
+        .filter(c => !c.isEnemy())
+        .map(c => ({ name: c.getName(), stats: c.stats }))
+    };
+    const dropped: ItemCount[] = [];
+    if (results.outcome === "victory") {
+      const loot = RNG.stream("loot");
+      for (const c of [...this.allCombatants(), ...this.departed]) {
+        if (c instanceof Enemy && !c.isAlive()) {
+          results.xp += c.xpReward;
+          results.gold += rollGold(c.drops, loot);
+          dropped.push(...rollDrops(c.drops, loot));
+        }
+      }
+    }
+    if (results.outcome !== "defeat") {
+      results.items = mergeItems(this.stolen, dropped);
+    }
+    if (this.outcome !== undefined) this.results = results;
+    return results;
+  }
+
+  /** in ATB mode, passes one game step of time */
+  public step(): void {
+    if (this.rules.mode !== "atb" || this.outcome !== undefined) return;
+    if (this.halted) return;
+    // combatants defeated while choosing lose their turns
+    for (const c of this.acting.filter(a => !a.isAlive())) {
+      c.interruptTurn();
+      this.acting.splice(this.acting.indexOf(c), 1);
+    }
+    if (this.checkOutcome()) return;
+    const choosing = this.acting.some(c => c.isChoosing());
+    if (choosing && (this.rules.atbWait ?? "wait") === "wait") return;
+    this.passTime();
+    this.startReadyTurn();
+  }
+}
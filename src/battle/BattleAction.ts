@@ -0,0 +1,120 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { actions } from "./actions";
+import { Combatant } from "./Combatant";
+import { DamageType } from "./DamageCalculator";
+import { Element } from "./Element";
+
+/** broad category of an action, used to sort actions into menus */
+export type ActionType =
+  | "attack"
+  | "skill"
+  | "defend"
+  | "formation"
+  | "item"
+  | "flee";
+
+/**
+ * who an action can be aimed at, relative to the combatant using it.
+ * "enemy" always means the opposing side, even when an Enemy is the user
+ */
+export type TargetRule =
+  | "single enemy"
+  | "all enemies"
+  | "single ally"
+  | "all allies"
+  | "self"
+  | "row";
+
+/**
+ * how close a combatant has to be to use an action. Melee actions can only
+ * reach the front row, and deal less damage from the back row
+ */
+export type ActionRange = "melee" | "ranged";
+
+/** resources a combatant must pay to use an action */
+export type ActionCost = {
+  hp?: number;
+  mp?: number;
+  /** identifier of an item from items.ts, one of which is used up */
+  item?: string;
+};
+
+/** one thing that happens to each target when an action resolves */
+export type ActionEffect =
+  | { kind: "damage"; power: number; damageType: DamageType }
+  | { kind: "heal"; power: number }
+  | { kind: "restore mp"; power: number }
+  | { kind: "status"; status: string; chance: number }
+  | { kind: "cure"; status: string }
+  | { kind: "defend" }
+  | { kind: "change row" }
+  | { kind: "steal"; chance: number }
+  /** an enemy from enemies.ts joins the user's side. Only enemies summon */
+  | { kind: "summon"; enemy: string }
+  /** the user leaves the battle on its own, without ending it */
+  | { kind: "retreat" }
+  | { kind: "flee"; chance: number };
+
+/**
+ * A data definition of something a combatant can do on its turn, such as an
+ * attack or a skill. Actions are listed in actions.ts
+ */
+export type BattleAction = {
+  /** unique string identifier */
+  id: string;
+  /** displayed name of the action */
+  name: string;
+  /** short explanation shown in menus */
+  description: string;
+  type: ActionType;
+  target: TargetRule;
+  /** defaults to ranged */
+  range?: ActionRange;
+  /** element of the action's damage, if it has one */
+  element?: Element;
+  cost: ActionCost;
+  /** effects are applied in order to each target */
+  effects: ActionEffect[];
+  /** label of a sprite played over each target when the action is used */
+  effectSprite?: string;
+};
+
+/** an action chosen by a combatant, along with who it is aimed at */
+export type ActionChoice = {
+  action: BattleAction;
+  /**
+   * the combatant the action was aimed at. Actions that hit a whole side or
+   * only the user may ignore this
+   */
+  target: Combatant;
+};
+
+/**
+ * get an action definition by its identifier
+ * @param id the identifier of the action in actions.ts
+ */
+export const getAction = (id: string): BattleAction => {
+  const action = actions[id];
+  if (action === undefined) {
+    throw new Error("BattleAction: no action with id " + id);
+  }
+  return action;
+};
@@ -0,0 +1,312 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { BattleAction } from "./BattleAction";
+import { BattleEvent } from "./BattleEvent";
+import { Combatant } from "./Combatant";
+import { AnimationState } from "./CombatantAnimation";
+import { Affinity } from "./Element";
+import { RM } from "../ResourceManager";
+import { Vector } from "../Vector";
+import { getItemDefinition } from "../items/Item";
+
+/** a number or word that rises from a combatant and fades away */
+type FloatingText = {
+  /** the combatant the text comes from */
+  owner: Combatant;
+  text: string;
+  color: string;
+  pos: Vector;
+  age: number;
+};
+
+/** a sprite played once over a combatant */
+type EffectSprite = {
+  label: string;
+  pos: Vector;
+  age: number;
+  duration: number;
+};
+
+/** a pause that resolves after some time */
+type Timer = {
+  remaining: number;
+  resolve: () => void;
+};
+
+/** floating text shown when an elemental action hits */
+const AFFINITY_LABELS: { [affinity in Affinity]: string } = {
+  normal: "",
+  weak: "Weak!",
+  resist: "Resist",
+  immune: "Immune",
+  absorb: "Absorb"
+};
+
+/** how long floating text lasts, in milliseconds */
+const FLOAT_TIME = 900;
+/** how long to linger after an action so floating text can be read */
+const LINGER_TIME = 400;
+
+/**
+ * Plays the animations for a battle: combatants lunging, recoiling and
+ * falling, damage numbers floating up, and effect sprites over targets. It
+ * presents each batch of battle events and resolves once they've played
+ */
+export class BattleAnimator {
+  /** finds where a combatant is drawn */
+  private readonly locate: (c: Combatant) => Vector;
+  /** floating text being shown */
+  private floats: FloatingText[];
+  /** effect sprites being played */
+  private effects: EffectSprite[];
+  /** pauses waiting to resolve */
+  private timers: Timer[];
+  /**
+   * combatants whose animations are being waited on. They keep being stepped
+   * even after leaving the battle, so present() can't get stuck on them
+   */
+  private playing: Combatant[];
+
+  /**
+   * @param locate finds the middle of where a combatant is drawn
+   */
+  public constructor(locate: (c: Combatant) => Vector) {
+    this.locate = locate;
+    this.floats = [];
+    this.effects = [];
+    this.timers = [];
+    this.playing = [];
+  }
+
+  /**
+   * plays the animations for a batch of events
+   * @param events things that happened in the battle, in order
+   * @return a promise that resolves when the animations are done
+   */
+  public async present(events: BattleEvent[]): Promise<void> {
+    if (events.length === 0) return;
+    // the user acts first, then everyone reacts at once
+    for (const event of events) {
+      if (event.type === "action") {
+        const action = event.action;
+        const state = BattleAnimator.userState(action);
+        if (state !== undefined) await this.play(event.user, state);
+        const label = action.effectSprite;
+        if (label !== undefined) {
+          event.targets.forEach(t => this.playEffect(label, t));
+        }
+      }
+    }
+
+    // each combatant's reactions play one after another
+    const reactions = new Map<Combatant, Promise<void>>();
+    const react = (c: Combatant, state: AnimationState): void => {
+      const previous = reactions.get(c) ?? Promise.resolve();
+      reactions.set(
+        c,
+        previous.then(() => this.play(c, state))
+      );
+    };
+    for (const event of events) {
+      switch (event.type) {
+        case "damage":
+          this.float(
+            event.target,
+            "" + event.amount,
+            event.critical ? "#f2c12e" : "#ffffff"
+          );
+          react(event.target, "hit");
+          break;
+        case "miss":
+          this.float(event.target, "Miss", "#a0a4a8");
+          break;
+        case "affinity":
+          if (event.affinity !== "normal") {
+            this.float(
+              event.target,
+              AFFINITY_LABELS[event.affinity],
+              event.affinity === "weak" ? "#f2c12e" : "#a0a4a8"
+            );
+          }
+          break;
+        case "heal":
+          this.float(event.target, "+" + event.amount, "#6fd66f");
+          break;
+        case "restore mp":
+          this.float(event.target, "+" + event.amount + " MP", "#3daee9");
+          break;
+        case "status applied":
+          this.float(event.target, event.status.name, event.status.color);
+          break;
+        case "status tick":
+          this.float(
+            event.combatant,
+            (event.hpChange > 0 ? "+" : "") + event.hpChange,
+            event.hpChange > 0 ? "#6fd66f" : "#ffffff"
+          );
+          if (event.hpChange < 0) react(event.combatant, "hit");
+          break;
+        case "steal":
+          if (event.item !== undefined) {
+            this.float(
+              event.target,
+              getItemDefinition(event.item).name,
+              "#f2c12e"
+            );
+          }
+          break;
+        case "defeated":
+          react(event.combatant, "die");
+          break;
+        case "joined":
+          react(event.combatant, "enter");
+          break;
+        case "left battle":
+          react(event.combatant, "leave");
+          break;
+      }
+    }
+    const waits: Promise<void>[] = [];
+    reactions.forEach(p => waits.push(p));
+    await Promise.all([...waits, this.wait(LINGER_TIME)]);
+  }
+
+  /**
+   * plays an animation state on a combatant, keeping it stepped until done
+   * @param c the combatant to animate
+   * @param state the state to play
+   * @return a promise that resolves when the state finishes
+   */
+  private play(c: Combatant, state: AnimationState): Promise<void> {
+    this.playing.push(c);
+    return c.animation.play(state).then(() => {
+      this.playing.splice(this.playing.indexOf(c), 1);
+    });
+  }
+
+  /**
+   * get the animation state a combatant plays when using an action
+   * @param action the action being used
+   */
+  private static userState(action: BattleAction): AnimationState | undefined {
+    if (action.type === "defend" || action.type === "flee") return undefined;
+    const physical = action.effects.some(
+      e => e.kind === "damage" && e.damageType === "physical"
+    );
+    return physical ? "attack" : "cast";
+  }
+
+  /**
+   * shows text floating up from a combatant
+   * @param c the combatant the text comes from
+   * @param text what to show
+   * @param color fill color of the text
+   */
+  private float(c: Combatant, text: string, color: string): void {
+    // stack text that starts at the same time so it doesn't overlap
+    const stacked = this.floats.filter(f => f.owner === c && f.age === 0);
+    this.floats.push({
+      owner: c,
+      text: text,
+      color: color,
+      pos: this.locate(c).add(0, -30 * stacked.length),
+      age: 0
+    });
+  }
+
+  /**
+   * plays an effect sprite once over a combatant
+   * @param label the label of the sprite
+   * @param c the combatant to play it over
+   */
+  private playEffect(label: string, c: Combatant): void {
+    const sprite = RM.getSprite(label);
+    if (sprite === undefined) return;
+    this.effects.push({
+      label: label,
+      pos: this.locate(c),
+      age: 0,
+      duration: sprite.getFrameCount() * Math.max(sprite.getSlowdown(), 1)
+    });
+  }
+
+  /**
+   * get a promise that resolves after some time
+   * @param ms how long to wait, in milliseconds
+   */
+  private wait(ms: number): Promise<void> {
+    return new Promise<void>(resolve =>
+      this.timers.push({ remaining: ms, resolve: resolve })
+    );
+  }
+
+  /**
+   * moves every animation forward in time
+   * @param ms milliseconds that have passed
+   * @param combatants every combatant in the battle. Ones still being
+   * waited on are stepped too, even if they've left
+   */
+  public step(ms: number, combatants: Combatant[]): void {
+    const stepped = [...combatants];
+    for (const c of this.playing) {
+      if (stepped.indexOf(c) < 0) stepped.push(c);
+    }
+    for (const c of stepped) c.animation.step(ms);
+    for (const f of this.floats) f.age += ms;
+    this.floats = this.floats.filter(f => f.age < FLOAT_TIME);
+    for (const e of this.effects) e.age += ms;
+    this.effects = this.effects.filter(e => e.age < e.duration);
+    for (const t of this.timers) t.remaining -= ms;
+    const finished = this.timers.filter(t => t.remaining <= 0);
+    this.timers = this.timers.filter(t => t.remaining > 0);
+    for (const t of finished) t.resolve();
+  }
+
+  /** draws effect sprites and floating text */
+  public draw(ctx: CanvasRenderingContext2D): void {
+    const size = 120;
+    for (const e of this.effects) {
+      const sprite = RM.getSprite(e.label);
+      if (sprite === undefined) continue;
+      ctx.drawImage(
+        sprite.getFrameAt(e.age, false).getImage(),
+        e.pos.x - size / 2,
+        e.pos.y - size / 2,
+        size,
+        size
+      );
+    }
+    ctx.save();
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.font = "bold 30px Bitter";
+    ctx.lineWidth = 4;
+    ctx.strokeStyle = "#232629";
+    for (const f of this.floats) {
+      const t = f.age / FLOAT_TIME;
+      const pos = f.pos.add(0, -50 * t);
+      ctx.globalAlpha = 1 - t * t;
+      ctx.fillStyle = f.color;
+      ctx.strokeText(f.text, pos.x, pos.y);
+      ctx.fillText(f.text, pos.x, pos.y);
+    }
+    ctx.restore();
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { BattleAction } from "./BattleAction";
+import { Combatant } from "./Combatant";
+import { StatusDefinition } from "./StatusEffect";
+import { BattleAdvantage, BattleOutcome } from "./Battle";
+import { Row } from "./Formation";
+import { Affinity, Element, elementName } from "./Element";
+import { getItemDefinition } from "../items/Item";
+
+/** something that happened in a battle, for the battle log and the like */
+export type BattleEvent =
+  | { type: "battle start" }
+  /** one side got a head start */
+  | { type: "advantage"; advantage: BattleAdvantage }
+  | { type: "round start"; round: number }
+  /** a combatant lost its turn to a status like stun */
+  | { type: "turn skipped"; combatant: Combatant }
+  /** hp lost or restored by statuses at the start of a turn */
+  | { type: "status tick"; combatant: Combatant; hpChange: number }
+  /** an action was used, sent before any of its effects */
+  | {
+      type: "action";
+      user: Combatant;
+      action: BattleAction;
+      targets: Combatant[];
+    }
+  | {
+      type: "action failed";
+      user: Combatant;
+      action: BattleAction;
+      reason: string;
+    }
+  | {
+      type: "damage";
+      user: Combatant;
+      target: Combatant;
+      amount: number;
+      critical: boolean;
+    }
+  /** an elemental action hit, sent before its damage */
+  | {
+      type: "affinity";
+      user: Combatant;
+      target: Combatant;
+      element: Element;
+      affinity: Affinity;
+    }
+  | { type: "miss"; user: Combatant; target: Combatant }
+  | { type: "heal"; target: Combatant; amount: number }
+  | { type: "restore mp"; target: Combatant; amount: number }
+  | { type: "status applied"; target: Combatant; status: StatusDefinition }
+  /** a status was cured or wore off */
+  | { type: "status removed"; target: Combatant; status: StatusDefinition }
+  | { type: "row changed"; combatant: Combatant; row: Row }
+  /**
+   * item is the identifier of what was stolen, or undefined if the attempt
+   * failed. empty is true if there was nothing left to steal
+   */
+  | {
+      type: "steal";
+      user: Combatant;
+      target: Combatant;
+      item: string | undefined;
+      empty: boolean;
+    }
+  | { type: "defeated"; combatant: Combatant }
+  /** a combatant joined partway through, like a summon or reinforcement */
+  | { type: "joined"; combatant: Combatant; side: "left" | "right" }
+  /** a combatant left partway through without ending the battle */
+  | { type: "left battle"; combatant: Combatant }
+  | { type: "flee"; user: Combatant; success: boolean }
+  | { type: "battle end"; outcome: BattleOutcome };
+
+/** a function that is called with every event in a battle */
+export type BattleListener = (event: BattleEvent) => void;
+
+/**
+ * describes a battle event in a sentence, for showing to the player
+ * @param event the event to describe
+ * @return the description, or undefined if the event isn't worth mentioning
+ */
+export const describeEvent = (event: BattleEvent): string | undefined => {
+  switch (event.type) {
+    case "battle start":
+      return "The battle begins!";
+    case "advantage":
+      return event.advantage === "first strike"
+        ? "First strike!"
+        : event.advantage === "ambush"
+        ? "Ambushed!"
+        : undefined;
+    case "round start":
+      return `Round ${event.round}`;
+    case "turn skipped":
+      return `${event.combatant.getName()} can't move!`;
+    case "status tick":
+      return event.hpChange < 0
+        ? `${event.combatant.getName()} takes ${-event.hpChange} damage.`
+        : `${event.combatant.getName()} recovers ${event.hpChange} HP.`;
+    case "action": {
+      const user = event.user.getName();
+      if (event.targets.length === 1 && event.targets[0] === event.user) {
+        return `${user} uses ${event.action.name}.`;
+      }
+      const targets = event.targets.map(t => t.getName()).join(", ");
+      return `${user} uses ${event.action.name} on ${targets}.`;
+    }
+    case "action failed":
+      return `${event.user.getName()} ${event.reason}.`;
+    case "damage":
+      return (
+        (event.critical ? "Critical hit! " : "") +
+        `${event.target.getName()} takes ${event.amount} damage.`
+      );
+    case "affinity": {
+      const target = event.target.getName();
+      const element = elementName(event.element);
+      switch (event.affinity) {
+        case "normal":
+          return undefined;
+        case "weak":
+          return `${target} is weak to ${element}!`;
+        case "resist":
+          return `${target} resists ${element}.`;
+        case "immune":
+          return `${target} is immune to ${element}.`;
+        case "absorb":
+          return `${target} absorbs ${element}!`;
+      }
+      return undefined;
+    }
+    case "miss":
+      return `${event.user.getName()} misses ${event.target.getName()}.`;
+    case "heal":
+      return `${event.target.getName()} recovers ${event.amount} HP.`;
+    case "restore mp":
+      return `${event.target.getName()} recovers ${event.amount} MP.`;
+    case "status applied":
+      return `${event.target.getName()} is afflicted with ${
+        event.status.name
+      }.`;
+    case "status removed":
+      return `${event.status.name} wears off ${event.target.getName()}.`;
+    case "row changed":
+      return `${event.combatant.getName()} moves to the ${event.row} row.`;
+    case "steal": {
+      const user = event.user.getName();
+      const target = event.target.getName();
+      if (event.item !== undefined) {
+        const item = getItemDefinition(event.item).name;
+        return `${user} stole ${item} from ${target}!`;
+      }
+      return event.empty
+        ? `${target} has nothing to steal.`
+        : `${user} couldn't steal anything.`;
+    }
+    case "defeated":
+      return `${event.combatant.getName()} is defeated!`;
+    case "joined":
+      return `${event.combatant.getName()} joins the battle!`;
+    case "left battle":
+      return `${event.combatant.getName()} leaves the battle.`;
+    case "flee":
+      return event.success
+        ? `${event.user.getName()} escaped!`
+        : `${event.user.getName()} couldn't escape!`;
+    case "battle end":
+      return event.outcome === "victory"
+        ? "Victory!"
+        : event.outcome === "defeat"
+        ? "The party has fallen..."
+        : "Got away safely.";
+  }
+};
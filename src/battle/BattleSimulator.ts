@@ -0,0 +1,238 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Battle, BattleOutcome } from "./Battle";
+import { Combatant } from "./Combatant";
+import { RNG } from "../RandomManager";
+
+/** what to simulate */
+export type SimulationConfig = {
+  /**
+   * creates fresh parties for each battle. None of the combatants may need
+   * the player to choose for them, so use AutoAlly rather than Ally
+   */
+  createParties: () => { left: Combatant[]; right: Combatant[] };
+  /** number of battles to run */
+  battles: number;
+  /** battle number i is seeded with seed + i, so any one can be replayed */
+  seed: number;
+  /** battles taking more turns than this are stopped. Defaults to 500 */
+  maxTurns?: number;
+};
+
+/** a summary of a set of numbers */
+export type Distribution = {
+  mean: number;
+  min: number;
+  median: number;
+  max: number;
+};
+
+/**
+ * how one combatant fared across every simulated battle. Combatants that
+ * joined partway through, like summons, are grouped by side and name, and
+ * their rates are out of the battles they appeared in
+ */
+export type CombatantReport = {
+  name: string;
+  side: "left" | "right";
+  /** fraction of battles the combatant was still standing at the end */
+  survivalRate: number;
+  damageDealt: Distribution;
+  damageTaken: Distribution;
+  kills: Distribution;
+};
+
+/** the results of a simulation */
+export type SimulationReport = {
+  battles: number;
+  seed: number;
+  /**
+   * number of battles that ended each way. "timeout" battles were stopped
+   * after taking too many turns
+   */
+  outcomes: { [outcome in BattleOutcome | "timeout"]: number };
+  /** fraction of battles won by the left side */
+  winRate: number;
+  averageTurns: number;
+  combatants: CombatantReport[];
+};
+
+/**
+ * summarizes a set of numbers
+ * @param values the numbers to summarize, which must not be empty
+ */
+const distribution = (values: number[]): Distribution => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return {
+    mean: sorted.reduce((sum, v) => sum + v, 0) / sorted.length,
+    min: sorted[0],
+    median:
+      sorted.length % 2 === 0
+        ? (sorted[mid - 1] + sorted[mid]) / 2
+        : sorted[mid],
+    max: sorted[sorted.length - 1]
+  };
+};
+
+/**
+ * runs one battle to the end
+ * @param battle the battle to run, in turn mode
+ * @param maxTurns stop the battle after this many turns
+ * @return how the battle ended
+ */
+const runBattle = (
+  battle: Battle,
+  maxTurns: number
+): Promise<BattleOutcome | "timeout"> =>
+  new Promise(resolve => {
+    battle.addListener(event => {
+      if (event.type === "battle end") {
+        resolve(event.outcome);
+      } else if (battle.getTurnCount() > maxTurns) {
+        battle.halt();
+        resolve("timeout");
+      }
+    });
+    battle.start();
+  });
+
+/**
+ * Runs many battles without drawing anything, for balancing encounters. Works
+ * under Node as long as none of the combatants need the player
+ * @param config what to simulate
+ */
+export const simulateBattles = async (
+  config: SimulationConfig
+): Promise<SimulationReport> => {
+  const report: SimulationReport = {
+    battles: config.battles,
+    seed: config.seed,
+    outcomes: { victory: 0, defeat: 0, escape: 0, timeout: 0 },
+    winRate: 0,
+    averageTurns: 0,
+    combatants: []
+  };
+  let totalTurns = 0;
+  const samples = new Map<
+    string,
+    {
+      name: string;
+      side: "left" | "right";
+      survived: number;
+      damageDealt: number[];
+      damageTaken: number[];
+      kills: number[];
+    }
+  >();
+
+  for (let i = 0; i < config.battles; ++i) {
+    RNG.seed(config.seed + i);
+    const parties = config.createParties();
+    // the battle changes the sides as combatants join and leave, so starting
+    // combatants are matched up across battles by where they started
+    const everyone = [
+      ...parties.left.map(c => ({ c: c, side: "left" as const })),
+      ...parties.right.map(c => ({ c: c, side: "right" as const }))
+    ].map((start, j) => ({ ...start, key: `start ${j}` }));
+    const battle = new Battle(parties.left, parties.right);
+    battle.setNoisy(false);
+    const joined = new Map<Combatant, "left" | "right">();
+    battle.addListener(event => {
+      if (event.type === "joined") joined.set(event.combatant, event.side);
+    });
+    const outcome = await runBattle(battle, config.maxTurns ?? 500);
+    report.outcomes[outcome]++;
+    totalTurns += battle.getTurnCount();
+
+    for (const c of [...battle.allCombatants(), ...battle.getDeparted()]) {
+      const side = joined.get(c);
+      if (side === undefined) continue;
+      everyone.push({
+        c: c,
+        side: side,
+        key: `joined ${side} ${c.getName()}`
+      });
+    }
+    everyone.forEach(({ c, side, key }) => {
+      let sample = samples.get(key);
+      if (sample === undefined) {
+        sample = {
+          name: c.getName(),
+          side: side,
+          survived: 0,
+          damageDealt: [],
+          damageTaken: [],
+          kills: []
+        };
+        samples.set(key, sample);
+      }
+      if (c.isAlive()) sample.survived++;
+      sample.damageDealt.push(c.stats.damageDealt);
+      sample.damageTaken.push(c.stats.damageTaken);
+      sample.kills.push(c.stats.kills);
+    });
+  }
+
+  report.winRate = report.outcomes.victory / Math.max(config.battles, 1);
+  report.averageTurns = totalTurns / Math.max(config.battles, 1);
+  samples.forEach(s =>
+    report.combatants.push({
+      name: s.name,
+      side: s.side,
+      survivalRate: s.survived / s.damageDealt.length,
+      damageDealt: distribution(s.damageDealt),
+      damageTaken: distribution(s.damageTaken),
+      kills: distribution(s.kills)
+    })
+  );
+  return report;
+};
+
+/**
+ * lays out a simulation report as a text table
+ * @param report the report to format
+ */
+export const formatReport = (report: SimulationReport): string => {
+  const percent = (x: number): string => `${(x * 100).toFixed(1)}%`;
+  const dist = (d: Distribution): string =>
+    `${d.mean.toFixed(1)} (${d.min}-${d.max})`.padEnd(18);
+  const o = report.outcomes;
+  const lines = [
+    `${report.battles} battles, seed ${report.seed}`,
+    `win rate ${percent(report.winRate)} (${o.victory} won, ${o.defeat} ` +
+      `lost, ${o.escape} escaped, ${o.timeout} timed out)`,
+    `average turns ${report.averageTurns.toFixed(1)}`,
+    "",
+    "side  name                survived  dealt             " +
+      "taken             kills"
+  ];
+  for (const c of report.combatants) {
+    lines.push(
+      c.side.padEnd(6) +
+        c.name.padEnd(20) +
+        percent(c.survivalRate).padEnd(10) +
+        dist(c.damageDealt) +
+        dist(c.damageTaken) +
+        dist(c.kills)
+    );
+  }
+  return lines.join("\n");
+};
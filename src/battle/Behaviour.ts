@@ -0,0 +1,413 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ActionChoice, BattleAction, getAction } from "./BattleAction";
+import { Combatant } from "./Combatant";
+import { actions } from "./actions";
+import { behaviours } from "./behaviours";
+import { RNG } from "../RandomManager";
+import { reachableTargets } from "./Formation";
+
+/**
+ * how to pick the target of an action. "ally" and "opponent" are relative to
+ * the combatant that is acting. "lowest hp" and "highest hp" compare hp as a
+ * fraction of max hp
+ */
+export type TargetSelector =
+  | "self"
+  | "random ally"
+  | "lowest hp ally"
+  | "random opponent"
+  | "lowest hp opponent"
+  | "highest hp opponent";
+
+/** a check against the current state of the battle */
+export type Condition =
+  /** the acting combatant's hp is below a fraction of its max hp */
+  | { type: "hp below"; fraction: number }
+  /** the acting combatant's hp is at or above a fraction of its max hp */
+  | { type: "hp above"; fraction: number }
+  /** any living ally's hp is below a fraction of its max hp */
+  | { type: "ally hp below"; fraction: number }
+  /** the acting combatant doesn't have a status */
+  | { type: "missing status"; status: string }
+  /** some living opponent doesn't have a status */
+  | { type: "opponent missing status"; status: string }
+  /** at least this many opponents are still standing */
+  | { type: "opponents at least"; count: number }
+  /** fewer than this many allies, including the acting one, are standing */
+  | { type: "allies below"; count: number }
+  /** passes randomly with the given chance from 0 to 1 */
+  | { type: "chance"; chance: number };
+
+/** an action to take if all of its conditions pass */
+export type BehaviourRule = {
+  conditions: Condition[];
+  action: string;
+  target: TargetSelector;
+};
+
+/** an action that is picked randomly, in proportion to its weight */
+export type WeightedAction = {
+  action: string;
+  weight: number;
+  target: TargetSelector;
+};
+
+/** one stage of a combatant's behaviour, such as a boss getting desperate */
+export type BehaviourPhase = {
+  /** displayed in logs when the phase begins */
+  name: string;
+  /**
+   * the phase begins once the combatant's hp falls below this fraction of its
+   * max hp. Omit for the first phase
+   */
+  hpBelow?: number;
+  /** actions to take, in order, on the first turns of this phase */
+  script?: { action: string; target: TargetSelector }[];
+  /** checked in order, the first rule whose conditions pass is used */
+  rules: BehaviourRule[];
+  /** used if no rule passes */
+  actions: WeightedAction[];
+};
+
+/**
+ * A plain-data description of how a computer-controlled combatant fights.
+ * Behaviours are listed in behaviours.ts, and since they are plain data they
+ * can be written as JSON as well and read with loadBehaviour
+ */
+export type BehaviourDefinition = {
+  /** unique string identifier */
+  id: string;
+  /** phases, in the order they happen */
+  phases: BehaviourPhase[];
+};
+
+/**
+ * get a behaviour definition by its identifier
+ * @param id the identifier of the behaviour in behaviours.ts
+ */
+export const getBehaviourDefinition = (id: string): BehaviourDefinition => {
+  const def = behaviours[id];
+  if (def === undefined) {
+    throw new Error("Behaviour: no behaviour with id " + id);
+  }
+  return def;
+};
+
+/** every target selector, for checking loaded behaviours */
+const targetSelectors: TargetSelector[] = [
+  "self",
+  "random ally",
+  "lowest hp ally",
+  "random opponent",
+  "lowest hp opponent",
+  "highest hp opponent"
+];
+
+/** the numeric or string parameter each type of condition needs */
+const conditionParameters: {
+  [type in Condition["type"]]: "fraction" | "count" | "chance" | "status";
+} = {
+  "hp below": "fraction",
+  "hp above": "fraction",
+  "ally hp below": "fraction",
+  "missing status": "status",
+  "opponent missing status": "status",
+  "opponents at least": "count",
+  "allies below": "count",
+  chance: "chance"
+};
+
+/** an object parsed from JSON whose fields haven't been checked yet */
+type Unchecked = { [key: string]: unknown };
+
+/**
+ * Checks that plain data, such as a behaviour read from a JSON file, is a
+ * valid behaviour definition
+ * @param data the data to check
+ * @return the same data, as a behaviour definition
+ * @throws an Error describing the first problem found
+ */
+export const validateBehaviour = (data: unknown): BehaviourDefinition => {
+  const fail = (message: string): never => {
+    throw new Error(`Behaviour: ${message}`);
+  };
+  const object = (value: unknown, where: string): Unchecked =>
+    typeof value === "object" && value !== null && !Array.isArray(value)
+      ? (value as Unchecked)
+      : fail(`${where} must be an object`);
+  const array = (value: unknown, where: string): unknown[] =>
+    Array.isArray(value) ? value : fail(`${where} must be an array`);
+  const checkAction = (value: unknown, where: string): void => {
+    if (typeof value !== "string" || actions[value] === undefined) {
+      fail(`unknown action ${JSON.stringify(value)} in ${where}`);
+    }
+  };
+  const checkTarget = (value: unknown, where: string): void => {
+    if (targetSelectors.indexOf(value as TargetSelector) === -1) {
+      fail(`unknown target ${JSON.stringify(value)} in ${where}`);
+    }
+  };
+  const checkCondition = (value: unknown, where: string): void => {
+    const condition = object(value, `condition in ${where}`);
+    const type = condition.type as Condition["type"];
+    if (!Object.prototype.hasOwnProperty.call(conditionParameters, type)) {
+      fail(`unknown condition ${JSON.stringify(type)} in ${where}`);
+    }
+    const parameter = conditionParameters[type];
+    const expected = parameter === "status" ? "string" : "number";
+    if (typeof condition[parameter] !== expected) {
+      fail(`condition "${type}" in ${where} needs a ${expected} ${parameter}`);
+    }
+  };
+
+  const def = object(data, "behaviour");
+  if (typeof def.id !== "string") fail("behaviour must have a string id");
+  const phases = array(def.phases, `${def.id} phases`);
+  if (phases.length === 0) fail(`${def.id} must have a phase`);
+  phases.forEach((value, i) => {
+    const phase = object(value, `${def.id} phase ${i}`);
+    const where = `${def.id} phase ${phase.name ?? i}`;
+    if (typeof phase.name !== "string") fail(`${where} must have a name`);
+    if (phase.hpBelow !== undefined && typeof phase.hpBelow !== "number") {
+      fail(`${where} hpBelow must be a number`);
+    }
+    if (phase.script !== undefined) {
+      array(phase.script, `${where} script`).forEach(value => {
+        const step = object(value, `${where} script`);
+        checkAction(step.action, `${where} script`);
+        checkTarget(step.target, `${where} script`);
+      });
+    }
+    array(phase.rules, `${where} rules`).forEach(value => {
+      const rule = object(value, `${where} rules`);
+      array(rule.conditions, `${where} rule conditions`).forEach(c =>
+        checkCondition(c, where)
+      );
+      checkAction(rule.action, `${where} rules`);
+      checkTarget(rule.target, `${where} rules`);
+    });
+    array(phase.actions, `${where} actions`).forEach(value => {
+      const option = object(value, `${where} actions`);
+      checkAction(option.action, `${where} actions`);
+      checkTarget(option.target, `${where} actions`);
+      if (typeof option.weight !== "number") {
+        fail(`actions in ${where} need a number weight`);
+      }
+    });
+  });
+  return data as BehaviourDefinition;
+};
+
+/**
+ * Reads a behaviour definition from JSON, checking that it's valid
+ * @param json the behaviour as a JSON string
+ * @throws an Error describing the first problem found
+ */
+export const loadBehaviour = (json: string): BehaviourDefinition =>
+  validateBehaviour(JSON.parse(json));
+
+/** returns the fraction of its max hp a combatant has left */
+const hpFraction = (c: Combatant): number => c.traits.hp / c.traits.maxHp;
+
+/**
+ * Evaluates a behaviour definition against the state of a battle to decide
+ * what a combatant does on its turn. Each combatant needs its own Behaviour,
+ * since it remembers which phase the combatant is in
+ */
+export class Behaviour {
+  /** whether behaviours log info */
+  public static noisy = true;
+  /** the data this behaviour follows */
+  private readonly definition: BehaviourDefinition;
+  /** index of the current phase */
+  private phase: number;
+  /** index of the next scripted action in the current phase */
+  private scriptStep: number;
+
+  /**
+   * @param definition the data this behaviour follows
+   */
+  public constructor(definition: BehaviourDefinition) {
+    if (definition.phases.length === 0) {
+      throw new Error(`Behaviour ${definition.id}: must have a phase`);
+    }
+    this.definition = definition;
+    this.phase = 0;
+    this.scriptStep = 0;
+  }
+
+  /**
+   * decides what a combatant does on its turn
+   * @param user the combatant that is acting
+   * @param allies living combatants on the user's side, including itself
+   * @param opponents living combatants on the opposing side
+   */
+  public choose(
+    user: Combatant,
+    allies: Combatant[],
+    opponents: Combatant[]
+  ): ActionChoice {
+    this.advancePhase(user);
+    const phase = this.definition.phases[this.phase];
+    const usable = (id: string): boolean => user.canAfford(getAction(id).cost);
+
+    // scripted actions come first
+    while (
+      phase.script !== undefined &&
+      this.scriptStep < phase.script.length
+    ) {
+      const step = phase.script[this.scriptStep++];
+      if (usable(step.action)) {
+        return this.makeChoice(
+          step.action,
+          step.target,
+          user,
+          allies,
+          opponents
+        );
+      }
+    }
+
+    for (const rule of phase.rules) {
+      if (
+        usable(rule.action) &&
+        rule.conditions.every(c => this.check(c, user, allies, opponents))
+      ) {
+        return this.makeChoice(
+          rule.action,
+          rule.target,
+          user,
+          allies,
+          opponents
+        );
+      }
+    }
+
+    const weighted = phase.actions.filter(a => usable(a.action));
+    const total = weighted.reduce((sum, a) => sum + a.weight, 0);
+    let roll = RNG.stream("ai").next() * total;
+    for (const option of weighted) {
+      roll -= option.weight;
+      if (roll < 0) {
+        return this.makeChoice(
+          option.action,
+          option.target,
+          user,
+          allies,
+          opponents
+        );
+      }
+    }
+    // nothing usable, fall back to a basic attack
+    return this.makeChoice(
+      "attack",
+      "random opponent",
+      user,
+      allies,
+      opponents
+    );
+  }
+
+  /** moves on to the latest phase whose hp threshold the user has crossed */
+  private advancePhase(user: Combatant): void {
+    const phases = this.definition.phases;
+    for (let i = phases.length - 1; i > this.phase; --i) {
+      const threshold = phases[i].hpBelow;
+      if (threshold === undefined || hpFraction(user) < threshold) {
+        this.phase = i;
+        this.scriptStep = 0;
+        if (Behaviour.noisy) {
+          console.log(`${user.getName()} enters phase ${phases[i].name}`);
+        }
+        return;
+      }
+    }
+  }
+
+  /** returns true if a condition passes */
+  private check(
+    condition: Condition,
+    user: Combatant,
+    allies: Combatant[],
+    opponents: Combatant[]
+  ): boolean {
+    switch (condition.type) {
+      case "hp below":
+        return hpFraction(user) < condition.fraction;
+      case "hp above":
+        return hpFraction(user) >= condition.fraction;
+      case "ally hp below":
+        return allies.some(a => hpFraction(a) < condition.fraction);
+      case "missing status":
+        return !user.hasStatus(condition.status);
+      case "opponent missing status":
+        return opponents.some(o => !o.hasStatus(condition.status));
+      case "opponents at least":
+        return opponents.length >= condition.count;
+      case "allies below":
+        return allies.length < condition.count;
+      case "chance":
+        return RNG.stream("ai").next() < condition.chance;
+    }
+  }
+
+  /**
+   * pairs an action with a target picked by a selector. Opponents the action
+   * can't reach are never picked
+   */
+  private makeChoice(
+    actionId: string,
+    selector: TargetSelector,
+    user: Combatant,
+    allies: Combatant[],
+    opponents: Combatant[]
+  ): ActionChoice {
+    const action: BattleAction = getAction(actionId);
+    opponents = reachableTargets(action, opponents);
+    const lowest = (side: Combatant[]): Combatant =>
+      side.reduce((a, b) => (hpFraction(b) < hpFraction(a) ? b : a));
+    const highest = (side: Combatant[]): Combatant =>
+      side.reduce((a, b) => (hpFraction(b) > hpFraction(a) ? b : a));
+
+    let target: Combatant;
+    switch (selector) {
+      case "self":
+        target = user;
+        break;
+      case "random ally":
+        target = RNG.stream("ai").pick(allies);
+        break;
+      case "lowest hp ally":
+        target = lowest(allies);
+        break;
+      case "random opponent":
+        target = RNG.stream("ai").pick(opponents);
+        break;
+      case "lowest hp opponent":
+        target = lowest(opponents);
+        break;
+      case "highest hp opponent":
+        target = highest(opponents);
+        break;
+    }
+    return { action: action, target: target };
+  }
+}
@@ -21,6 +21,17 @@ import { Sprite } from "../Sprite";
 import { RM } from "../ResourceManager";
 import { Box } from "../Box";
 import { Vector } from "../Vector";
+import {
+  ActionChoice,
+  ActionCost,
+  BattleAction,
+  getAction
+} from "./BattleAction";
+import { StatusDefinition, StatusEffect } from "./StatusEffect";
+import { AnimationState, CombatantAnimation } from "./CombatantAnimation";
+import { Row } from "./Formation";
+import { Affinities, Affinity, Element } from "./Element";
+import { Inventory } from "../items/Inventory";
 
 /** variable core characteristics belonging to a combatant */
 export type CombatantTraits = {
@@ -28,6 +39,75 @@ export type CombatantTraits = {
   speed: number;
   /** health points, combatant dies when it reaches zero */
   hp: number;
+  /** hp can't be restored above this */
+  maxHp: number;
+  /** magic points, spent to use skills */
+  mp: number;
+  /** mp can't be restored above this */
+  maxMp: number;
+  /** increases physical damage dealt */
+  attack: number;
+  /** decreases physical damage taken */
+  defense: number;
+  /** increases magical damage dealt */
+  magic: number;
+  /** decreases magical damage taken */
+  resistance: number;
+  /** chance from 0 to 1 that this combatant's attacks hit */
+  accuracy: number;
+  /** subtracted from the accuracy of physical attacks against this combatant */
+  evasion: number;
+  /** chance from 0 to 1 that a hit from this combatant is critical */
+  critChance: number;
+};
+
+/** the traits every combatant starts with */
+export const DEFAULT_TRAITS: CombatantTraits = {
+  speed: 1,
+  hp: Infinity,
+  maxHp: Infinity,
+  mp: 0,
+  maxMp: 0,
+  attack: 10,
+  defense: 10,
+  magic: 10,
+  resistance: 10,
+  accuracy: 0.95,
+  evasion: 0.05,
+  critChance: 0.05
+};
+
+/** short names of each trait, for menus */
+export const TRAIT_ABBREVIATIONS: {
+  [trait in keyof CombatantTraits]: string;
+} = {
+  speed: "SPD",
+  hp: "HP",
+  maxHp: "Max HP",
+  mp: "MP",
+  maxMp: "Max MP",
+  attack: "ATK",
+  defense: "DEF",
+  magic: "MAG",
+  resistance: "RES",
+  accuracy: "ACC",
+  evasion: "EVA",
+  critChance: "CRIT"
+};
+
+/** what a combatant's status effects did at the start of its turn */
+export type TurnStartResult = {
+  /** net hp change from effects like poison and regen */
+  hpChange: number;
+  /** true if a status, like stun, stops the combatant from acting */
+  skip: boolean;
+};
+
+/** statistics about what a combatant did in one battle */
+export type CombatantStats = {
+  damageDealt: number;
+  damageTaken: number;
+  kills: number;
 };
 
 /**
@@ -38,36 +118,295 @@ export type CombatantTraits = {
 export abstract class Combatant {
   /** displayed name of the combatant */
   private name = "Unnamed Combatant";
+  /**
+   * shared by combatants of the same kind, like every slime, so what the
+   * player learns about one applies to the rest. Defaults to the name
+   */
+  private kind: string | undefined = undefined;
   /** variable characteristics like strength, speed, and hp */
-  public traits: CombatantTraits = {
-    speed: 1,
-    hp: Infinity
-  };
+  public traits: CombatantTraits = { ...DEFAULT_TRAITS };
+  /** whether this combatant is defending until its next turn */
+  public defending = false;
+  /** which row this combatant stands in */
+  public row: Row = "front";
+  /** whether the player's target cursor is on this combatant */
+  public targeted = false;
+  /** how this combatant reacts to each element */
+  protected affinities: Affinities = {};
+  /** identifiers of the actions this combatant knows, from actions.ts */
+  protected actionIds: string[] = ["attack", "defend"];
+  /**
+   * items this combatant can use, such as the party's. Combatants without an
+   * inventory, like enemies, can use the items they know as often as they like
+   */
+  public inventory: Inventory | undefined = undefined;
+  /** lingering effects currently afflicting this combatant */
+  private statuses: StatusEffect[] = [];
   /** statistics from this battle */
-  private stats = {
+  public readonly stats: CombatantStats = {
     damageDealt: 0,
     damageTaken: 0,
     kills: 0
   };
   /** sprite for the platform this combatant stands on in battle */
   private platformSprite: Sprite | undefined = undefined;
+  /** which animation state this combatant is in */
+  public readonly animation = new CombatantAnimation();
+  /**
+   * labels of the sprites to draw for each animation state. States without a
+   * sprite fall back on the idle sprite, then on draw()
+   */
+  protected animationSprites: { [state in AnimationState]?: string } = {};
 
   /**
-   * this combatant takes its turn in the battle, resolving the promise when
-   * it is done
+   * this combatant chooses what to do on its turn, resolving the promise with
+   * its choice when it has decided
+   * @param allies living combatants on this combatant's side, including itself
+   * @param opponents living combatants on the opposing side
    */
-  public abstract async takeTurn(): Promise<void>;
+  public abstract async takeTurn(
+    allies: Combatant[],
+    opponents: Combatant[]
+  ): Promise<ActionChoice>;
+
+  /**
+   * abandons a turn this combatant is still choosing an action for, such as
+   * when it's defeated in the meantime. The promise returned by takeTurn() is
+   * never resolved
+   */
+  public interruptTurn(): void {
+    return;
+  }
+
+  /**
+   * returns true while the player is choosing this combatant's action, such
+   * as through the command menu
+   */
+  public isChoosing(): boolean {
+    return false;
+  }
 
   /** returns true if this is an enemy and false if it is an ally or neutral */
   public abstract isEnemy(): boolean;
 
+  /** get the displayed name of this combatant */
+  public getName(): string {
+    return this.name;
+  }
+
+  /**
+   * @param newName new displayed name of this combatant
+   */
+  protected setName(newName: string): void {
+    this.name = newName;
+  }
+
+  /** get the kind of combatant this is */
+  public getKind(): string {
+    return this.kind ?? this.name;
+  }
+
+  /**
+   * @param newKind the kind of combatant this is
+   */
+  protected setKind(newKind: string): void {
+    this.kind = newKind;
+  }
+
+  /**
+   * get how this combatant reacts to damage of an element
+   * @param element the element of the damage
+   */
+  public getAffinity(element: Element): Affinity {
+    return this.affinities[element] ?? "normal";
+  }
+
+  /** returns true if this combatant still has hp left */
+  public isAlive(): boolean {
+    return this.traits.hp > 0;
+  }
+
+  /**
+   * get definitions of all the actions this combatant knows, followed by the
+   * actions of the items in its inventory
+   */
+  public getActions(): BattleAction[] {
+    const known = this.actionIds.map(id => getAction(id));
+    const items = this.inventory?.getBattleActions() ?? [];
+    return [...known, ...items.filter(a => known.indexOf(a) < 0)];
+  }
+
+  /**
+   * whether this combatant has enough hp, mp and items to pay a cost. Paying
+   * hp can't bring a combatant to zero
+   * @param cost the cost to check
+   */
+  public canAfford(cost: ActionCost): boolean {
+    const hasItem =
+      cost.item === undefined ||
+      this.inventory === undefined ||
+      this.inventory.count(cost.item) > 0;
+    return (
+      (cost.hp ?? 0) < this.traits.hp &&
+      (cost.mp ?? 0) <= this.traits.mp &&
+      hasItem
+    );
+  }
+
+  /**
+   * subtracts the cost of an action from this combatant's hp, mp and items
+   * @param cost the cost to pay
+   */
+  public payCost(cost: ActionCost): void {
+    this.traits.hp -= cost.hp ?? 0;
+    this.traits.mp -= cost.mp ?? 0;
+    if (cost.item !== undefined) this.inventory?.remove(cost.item);
+  }
+
+  /**
+   * gets this combatant's traits after applying the modifiers of all its
+   * status effects. Use this rather than traits when traits affect an outcome
+   */
+  public getEffectiveTraits(): CombatantTraits {
+    const effective = { ...this.traits };
+    for (const status of this.statuses) status.modify(effective);
+    return effective;
+  }
+
+  /** get all the status effects currently afflicting this combatant */
+  public getStatuses(): StatusEffect[] {
+    return this.statuses;
+  }
+
+  /**
+   * returns true if this combatant is afflicted with a status
+   * @param id identifier of the status
+   */
+  public hasStatus(id: string): boolean {
+    return this.statuses.some(s => s.definition.id === id);
+  }
+
+  /**
+   * afflicts this combatant with a status, following the status's stacking
+   * rule if it's already afflicted
+   * @param definition the status to apply
+   * @return false if applying the status had no effect
+   */
+  public addStatus(definition: StatusDefinition): boolean {
+    if (!this.isAlive()) return false;
+    const existing = this.statuses.find(s => s.definition === definition);
+    if (existing !== undefined) return existing.reapply();
+    this.statuses.push(new StatusEffect(definition));
+    return true;
+  }
+
+  /**
+   * removes a status from this combatant
+   * @param id identifier of the status to remove
+   * @return false if the combatant didn't have the status
+   */
+  public removeStatus(id: string): boolean {
+    const before = this.statuses.length;
+    this.statuses = this.statuses.filter(s => s.definition.id !== id);
+    return this.statuses.length < before;
+  }
+
+  /**
+   * runs status effects that happen at the start of this combatant's turn,
+   * like poison damage
+   */
+  public startTurn(): TurnStartResult {
+    const result: TurnStartResult = { hpChange: 0, skip: false };
+    for (const status of this.statuses) {
+      const change = status.getHpPerTurn();
+      if (change > 0) {
+        result.hpChange += this.heal(change);
+      } else if (change < 0) {
+        const taken = Math.min(-change, this.traits.hp);
+        this.traits.hp -= taken;
+        this.stats.damageTaken += taken;
+        result.hpChange -= taken;
+      }
+      if (status.definition.skipTurn) result.skip = true;
+    }
+    return result;
+  }
+
+  /** counts down statuses measured in turns once this combatant's turn ends */
+  public endTurn(): StatusEffect[] {
+    return this.countDownStatuses("turns");
+  }
+
+  /** counts down statuses measured in rounds once a round ends */
+  public endRound(): StatusEffect[] {
+    return this.countDownStatuses("rounds");
+  }
+
+  /**
+   * counts down the duration of every status and removes the ones that wore
+   * off
+   * @return the statuses that wore off
+   */
+  private countDownStatuses(unit: "turns" | "rounds"): StatusEffect[] {
+    for (const status of this.statuses) status.countDown(unit);
+    const expired = this.statuses.filter(s => s.isExpired());
+    this.statuses = this.statuses.filter(s => !s.isExpired());
+    return expired;
+  }
+
+  /**
+   * reduces this combatant's hp, halving the amount if it is defending
+   * @param amount amount of damage to take
+   * @return the amount of damage actually taken
+   */
+  public takeDamage(amount: number): number {
+    for (const status of this.statuses) {
+      amount *= status.getDamageTakenMultiplier();
+    }
+    amount = Math.round(amount);
+    if (this.defending) amount = Math.floor(amount / 2);
+    amount = Math.min(amount, this.traits.hp);
+    this.traits.hp -= amount;
+    return amount;
+  }
+
+  /**
+   * restores some of this combatant's hp, up to its max hp
+   * @param amount amount of hp to restore
+   * @return the amount of hp actually restored
+   */
+  public heal(amount: number): number {
+    if (!this.isAlive()) return 0;
+    amount = Math.min(amount, this.traits.maxHp - this.traits.hp);
+    this.traits.hp += amount;
+    return amount;
+  }
+
+  /**
+   * restores some of this combatant's mp, up to its max mp
+   * @param amount amount of mp to restore
+   * @return the amount of mp actually restored
+   */
+  public restoreMp(amount: number): number {
+    if (!this.isAlive()) return 0;
+    amount = Math.min(amount, this.traits.maxMp - this.traits.mp);
+    this.traits.mp += amount;
+    return amount;
+  }
+
   /**
    * draws the platform for this combatant to stand on
    * @param ctx the canvas context to draw on
    * @param drawBox specifies the position and size in which to draw
+   * @param fallback label of the sprite to use if this combatant doesn't have
+   * its own platform, like the arena's
    */
-  public drawPlatform(ctx: CanvasRenderingContext2D, drawBox: Box): void {
-    const sprite = this.platformSprite ?? RM.getSprite("default-platform");
+  public drawPlatform(
+    ctx: CanvasRenderingContext2D,
+    drawBox: Box,
+    fallback = "default-platform"
+  ): void {
+    const sprite = this.platformSprite ?? RM.getSprite(fallback);
     if (sprite === undefined) {
       throw new Error("Combatant: Failed to get platform sprite");
     }
@@ -80,6 +419,88 @@ export abstract class Combatant {
     );
   }
 
+  /**
+   * draws a row of icons for this combatant's status effects
+   * @param ctx the canvas context to draw on
+   * @param topLeft where to draw the first icon
+   */
+  public drawStatusIcons(ctx: CanvasRenderingContext2D, topLeft: Vector): void {
+    const size = 28;
+    const gap = 4;
+    ctx.save();
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.font = "bold 14px Bitter";
+    this.statuses.forEach((status, i) => {
+      const pos = topLeft.add(i * (size + gap), 0);
+      const sprite =
+        status.definition.icon !== undefined
+          ? RM.getSprite(status.definition.icon)
+          : undefined;
+      if (sprite !== undefined) {
+        ctx.drawImage(
+          sprite.getCurrentFrame().getImage(),
+          pos.x,
+          pos.y,
+          size,
+          size
+        );
+      } else {
+        ctx.fillStyle = status.definition.color;
+        ctx.fillRect(pos.x, pos.y, size, size);
+        ctx.fillStyle = "#ffffff";
+        ctx.fillText(
+          status.definition.abbreviation,
+          pos.x + size / 2,
+          pos.y + size / 2
+        );
+      }
+      if (status.getStacks() > 1) {
+        ctx.fillStyle = "#ffffff";
+        ctx.font = "bold 12px Bitter";
+        ctx.fillText("" + status.getStacks(), pos.x + size, pos.y + size);
+        ctx.font = "bold 14px Bitter";
+      }
+    });
+    ctx.restore();
+  }
+
+  /**
+   * draws the combatant in its current animation state, moved and faded to
+   * match
+   * @param ctx the canvas context to draw on
+   * @param center the middle of the drawable area
+   * @param maxHeight maximum height of the drawable area
+   */
+  public drawAnimated(
+    ctx: CanvasRenderingContext2D,
+    center: Vector,
+    maxHeight: number
+  ): void {
+    const pos = center.add(this.animation.getOffset());
+    const label =
+      this.animationSprites[this.animation.getState()] ??
+      this.animationSprites.idle;
+    const sprite = label !== undefined ? RM.getSprite(label) : undefined;
+    ctx.save();
+    ctx.globalAlpha = this.animation.getAlpha();
+    if (sprite !== undefined) {
+      const img = this.animation.getFrame(sprite).getImage();
+      // scale the sprite to fill the height, keeping its aspect ratio
+      const width = (img.width / Math.max(img.height, 1)) * maxHeight;
+      ctx.drawImage(
+        img,
+        pos.x - width / 2,
+        pos.y - maxHeight / 2,
+        width,
+        maxHeight
+      );
+    } else {
+      this.draw(ctx, pos, maxHeight);
+    }
+    ctx.restore();
+  }
+
   /**
    * draws the combatant within the given box
    * @param ctx the canvas context to draw on
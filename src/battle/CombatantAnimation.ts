@@ -0,0 +1,177 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Frame, Sprite } from "../Sprite";
+import { Vector } from "../Vector";
+
+/** what a combatant is doing, for choosing how to draw it */
+export type AnimationState =
+  | "idle"
+  | "attack"
+  | "cast"
+  | "hit"
+  | "die"
+  | "victory"
+  | "enter"
+  | "leave";
+
+/**
+ * how long each state plays, in milliseconds. Idle and victory loop until
+ * something else is played, and die and leave hold their last frame
+ */
+const durations: { [state in AnimationState]: number } = {
+  idle: 0,
+  attack: 450,
+  cast: 600,
+  hit: 350,
+  die: 700,
+  victory: 0,
+  enter: 400,
+  leave: 500
+};
+
+/**
+ * Keeps track of which animation state a combatant is in and how far along it
+ * is, and works out the lunges, recoils and fades that go with each state
+ */
+export class CombatantAnimation {
+  /** the state being played */
+  private state: AnimationState;
+  /** milliseconds since the state started */
+  private elapsed: number;
+  /** resolves the promise returned by play() */
+  private onDone: (() => void) | undefined;
+  /** which way the combatant faces, 1 for right and -1 for left */
+  public facing: 1 | -1;
+
+  public constructor() {
+    this.state = "idle";
+    this.elapsed = 0;
+    this.onDone = undefined;
+    this.facing = 1;
+  }
+
+  /** get the state being played */
+  public getState(): AnimationState {
+    return this.state;
+  }
+
+  /**
+   * starts playing a state, cutting off whatever was playing before
+   * @param state the state to play
+   * @return a promise that resolves when the state finishes, or right away
+   * for states that loop
+   */
+  public play(state: AnimationState): Promise<void> {
+    this.finish();
+    this.state = state;
+    this.elapsed = 0;
+    if (durations[state] <= 0) return Promise.resolve();
+    return new Promise<void>(resolve => (this.onDone = resolve));
+  }
+
+  /**
+   * moves the animation forward in time
+   * @param ms milliseconds that have passed
+   */
+  public step(ms: number): void {
+    this.elapsed += ms;
+    const duration = durations[this.state];
+    if (duration > 0 && this.elapsed >= duration && !this.isExit()) {
+      this.state = "idle";
+      this.elapsed = 0;
+      this.finish();
+    } else if (this.isExit() && this.elapsed >= duration) {
+      this.finish();
+    }
+  }
+
+  /** returns true if the current state takes the combatant off the field */
+  private isExit(): boolean {
+    return this.state === "die" || this.state === "leave";
+  }
+
+  /**
+   * returns true once a die or leave state has finished playing, so a
+   * combatant that has left the battle no longer needs to be drawn
+   */
+  public hasEnded(): boolean {
+    return this.isExit() && this.getProgress() >= 1;
+  }
+
+  /** resolves the promise for the current state, if there is one */
+  private finish(): void {
+    const onDone = this.onDone;
+    this.onDone = undefined;
+    if (onDone !== undefined) onDone();
+  }
+
+  /** get how far through the current state it is, from 0 to 1 */
+  private getProgress(): number {
+    const duration = durations[this.state];
+    return duration > 0 ? Math.min(this.elapsed / duration, 1) : 0;
+  }
+
+  /** get how far the combatant is moved from its usual spot */
+  public getOffset(): Vector {
+    const t = this.getProgress();
+    switch (this.state) {
+      case "attack":
+        // lunge forward and back
+        return new Vector(Math.sin(Math.PI * t) * 60 * this.facing, 0);
+      case "cast":
+        return new Vector(0, -Math.sin(Math.PI * t) * 15);
+      case "hit":
+        // recoil backward
+        return new Vector(-Math.sin(Math.PI * t) * 20 * this.facing, 0);
+      case "victory":
+        return new Vector(0, -Math.abs(Math.sin(this.elapsed / 200)) * 12);
+      case "enter":
+        // drop in from above
+        return new Vector(0, -40 * (1 - t));
+      case "leave":
+        // rise up and away
+        return new Vector(0, -80 * t);
+      default:
+        return new Vector(0, 0);
+    }
+  }
+
+  /** get the opacity to draw the combatant with */
+  public getAlpha(): number {
+    const t = this.getProgress();
+    if (this.state === "die") return 1 - 0.7 * t;
+    if (this.state === "enter") return t;
+    if (this.state === "leave") return 1 - t;
+    if (this.state === "hit" && t < 0.5) {
+      // flicker
+      return Math.floor(t * 8) % 2 === 0 ? 0.4 : 1;
+    }
+    return 1;
+  }
+
+  /**
+   * get the frame of a sprite to show for the current state
+   * @param sprite the sprite for the current state
+   */
+  public getFrame(sprite: Sprite): Frame {
+    const loop = this.state === "idle" || this.state === "victory";
+    return sprite.getFrameAt(this.elapsed, loop);
+  }
+}
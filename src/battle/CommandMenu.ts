@@ -0,0 +1,349 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ActionChoice, ActionType, BattleAction } from "./BattleAction";
+import { Combatant } from "./Combatant";
+import { Box } from "../Box";
+import { CANV_SIZE } from "../DisplayManager";
+import { IM } from "../InputManager";
+import { UM } from "../UIManager";
+import { Vector } from "../Vector";
+import { MenuOption, MenuUIElement } from "../ui/MenuUIElement";
+import { reachableTargets } from "./Formation";
+import { describeAffinities } from "./Element";
+import { BM } from "../BestiaryManager";
+
+/** the top-level commands, in the order they're listed */
+const COMMANDS = ["Attack", "Skills", "Items", "Defend", "Formation", "Flee"];
+
+/**
+ * The menu the player uses to choose what an allied combatant does on its
+ * turn. After picking a command, and a skill or item if needed, a cursor walks
+ * across the combatants to choose a target
+ */
+export class CommandMenu {
+  /** the combatant whose turn it is */
+  private readonly user: Combatant;
+  /** living combatants on the user's side */
+  private readonly allies: Combatant[];
+  /** living combatants on the opposing side */
+  private readonly opponents: Combatant[];
+  /** the menu panel */
+  private readonly menu: MenuUIElement;
+  /** which part of the menu the player is in */
+  private state: "command" | "list" | "target";
+  /** actions shown in the skill or item list */
+  private listed: BattleAction[];
+  /** the action waiting for a target */
+  private pending: BattleAction | undefined;
+  /** which column the target cursor is in */
+  private targetSide: "allies" | "opponents";
+  /** index of the targeted combatant within its column */
+  private targetIndex: number;
+  /** resolves the promise returned by open() */
+  private resolve: ((choice: ActionChoice) => void) | undefined;
+
+  /**
+   * @param user the combatant whose turn it is
+   * @param allies living combatants on the user's side, including itself
+   * @param opponents living combatants on the opposing side
+   */
+  public constructor(
+    user: Combatant,
+    allies: Combatant[],
+    opponents: Combatant[]
+  ) {
+    this.user = user;
+    this.allies = allies;
+    this.opponents = opponents;
+    this.menu = new MenuUIElement(
+      "battle-command-menu",
+      new Box(new Vector(CANV_SIZE / 2 - 200, CANV_SIZE - 360), 400, 340),
+      "",
+      []
+    );
+    this.state = "command";
+    this.listed = [];
+    this.pending = undefined;
+    this.targetSide = "opponents";
+    this.targetIndex = 0;
+    this.resolve = undefined;
+  }
+
+  /**
+   * shows the menu and takes over the controls until the player has chosen
+   * @return a promise that resolves with the player's choice
+   */
+  public open(): Promise<ActionChoice> {
+    return new Promise<ActionChoice>(resolve => {
+      this.resolve = resolve;
+      IM.save();
+      IM.enterMenuMode();
+      IM.setDirectionalFunction("navigation", this.navigate.bind(this));
+      IM.setOnPressed("enter", this.confirm.bind(this));
+      IM.setOnPressed("cancel", this.back.bind(this));
+      this.showCommands();
+      UM.push(this.menu);
+    });
+  }
+
+  /** returns true while the menu is waiting for the player */
+  public isOpen(): boolean {
+    return this.resolve !== undefined;
+  }
+
+  /** lists the top-level commands */
+  private showCommands(): void {
+    this.state = "command";
+    const attack = this.findAction("attack");
+    const options: MenuOption[] = COMMANDS.map(label => ({
+      label: label,
+      enabled: true
+    }));
+    options[0].enabled = attack !== undefined;
+    options[0].description = attack?.description;
+    options[1].enabled = this.actionsOfType("skill").length > 0;
+    options[2].enabled = this.actionsOfType("item").length > 0;
+    options[3].enabled = this.findAction("defend") !== undefined;
+    options[4].enabled = this.findAction("formation") !== undefined;
+    options[4].description = this.findAction("formation")?.description;
+    options[5].enabled = this.findAction("flee") !== undefined;
+    this.menu.setOptions(this.user.getName(), options);
+  }
+
+  /**
+   * lists the skills or items the user knows
+   * @param type which kind of action to list
+   */
+  private showList(type: ActionType): void {
+    this.state = "list";
+    this.listed = this.actionsOfType(type);
+    this.menu.setOptions(
+      type === "skill" ? "Skills" : "Items",
+      this.listed.map(a => ({
+        label: this.labelFor(a),
+        enabled: this.user.canAfford(a.cost),
+        description: a.description
+      }))
+    );
+  }
+
+  /**
+   * get how an action is listed, with its mp cost or how many of its item are
+   * left
+   * @param action the action to list
+   */
+  private labelFor(action: BattleAction): string {
+    const item = action.cost.item;
+    const inventory = this.user.inventory;
+    if (item !== undefined && inventory !== undefined) {
+      return `${action.name} ×${inventory.count(item)}`;
+    }
+    return action.cost.mp
+      ? `${action.name} (${action.cost.mp} MP)`
+      : action.name;
+  }
+
+  /**
+   * starts choosing a target for an action, or finishes right away if the
+   * action can only affect the user
+   * @param action the action that needs a target
+   */
+  private beginTargeting(action: BattleAction): void {
+    if (action.target === "self") {
+      this.finish({ action: action, target: this.user });
+      return;
+    }
+    this.pending = action;
+    this.state = "target";
+    this.targetSide =
+      action.target === "single ally" || action.target === "all allies"
+        ? "allies"
+        : "opponents";
+    this.targetIndex =
+      this.targetSide === "allies"
+        ? this.allies.indexOf(this.user)
+        : this.firstReachable();
+    this.targetIndex = Math.max(this.targetIndex, 0);
+    this.updateTargets();
+  }
+
+  /** marks the combatants the pending action would hit */
+  private updateTargets(): void {
+    this.clearTargets();
+    if (this.pending === undefined) return;
+    const column = this.getColumn();
+    const target = column[this.targetIndex];
+    switch (this.pending.target) {
+      case "all allies":
+      case "all enemies":
+        column.forEach(c => (c.targeted = true));
+        break;
+      case "row":
+        column
+          .slice(Math.max(this.targetIndex - 1, 0), this.targetIndex + 2)
+          .forEach(c => (c.targeted = true));
+        break;
+      default:
+        target.targeted = true;
+    }
+    const hp = `${target.traits.hp}/${target.traits.maxHp} HP`;
+    // enemies show whatever affinities the player has discovered
+    const known = target.isEnemy()
+      ? describeAffinities(BM.getKnownAffinities(target.getKind())) ||
+        "No affinities known"
+      : undefined;
+    this.menu.setOptions(`${this.pending.name}: choose a target`, [
+      {
+        label: `${target.getName()} (${hp})`,
+        enabled: true,
+        description: known
+      }
+    ]);
+  }
+
+  /** get the column of combatants the target cursor is in */
+  private getColumn(): Combatant[] {
+    return this.targetSide === "allies" ? this.allies : this.opponents;
+  }
+
+  /**
+   * get the index of the first combatant in the target cursor's column that
+   * the pending action can reach
+   */
+  private firstReachable(): number {
+    const column = this.getColumn();
+    if (this.pending === undefined) return 0;
+    const reachable = reachableTargets(this.pending, column);
+    return Math.max(column.indexOf(reachable[0]), 0);
+  }
+
+  /** unmarks every combatant */
+  private clearTargets(): void {
+    for (const c of [...this.allies, ...this.opponents]) c.targeted = false;
+  }
+
+  /**
+   * handles the navigation directional
+   * @param dir which way the player pushed
+   */
+  private navigate(dir: "up" | "right" | "down" | "left"): void {
+    if (this.state !== "target") {
+      if (dir === "up") this.menu.moveCursor(-1);
+      if (dir === "down") this.menu.moveCursor(1);
+      return;
+    }
+    if (dir === "left" || dir === "right") {
+      // single targets can be moved to the other side of the battlefield
+      const rule = this.pending?.target;
+      if (rule !== "single enemy" && rule !== "single ally") return;
+      const leftSide = this.user.isEnemy() ? "opponents" : "allies";
+      const rightSide = this.user.isEnemy() ? "allies" : "opponents";
+      const side = dir === "left" ? leftSide : rightSide;
+      if (side === this.targetSide) return;
+      this.targetSide = side;
+      this.targetIndex = this.firstReachable();
+    }
+    const column = this.getColumn();
+    const n = column.length;
+    const step = dir === "up" ? n - 1 : dir === "down" ? 1 : 0;
+    if (step !== 0 && this.pending !== undefined) {
+      // skip over combatants the action can't reach
+      const reachable = reachableTargets(this.pending, column);
+      do {
+        this.targetIndex = (this.targetIndex + step) % n;
+      } while (reachable.indexOf(column[this.targetIndex]) < 0);
+    }
+    this.updateTargets();
+  }
+
+  /** handles the enter button */
+  private confirm(): void {
+    const selected = this.menu.getSelected();
+    switch (this.state) {
+      case "command": {
+        if (selected === undefined || !selected.enabled) return;
+        const command = COMMANDS[this.menu.getCursor()];
+        if (command === "Skills") this.showList("skill");
+        else if (command === "Items") this.showList("item");
+        else {
+          const action = this.findAction(command.toLowerCase() as ActionType);
+          if (action !== undefined) this.beginTargeting(action);
+        }
+        return;
+      }
+      case "list":
+        if (selected === undefined || !selected.enabled) return;
+        this.beginTargeting(this.listed[this.menu.getCursor()]);
+        return;
+      case "target":
+        if (this.pending === undefined) return;
+        this.finish({
+          action: this.pending,
+          target: this.getColumn()[this.targetIndex]
+        });
+        return;
+    }
+  }
+
+  /** handles the cancel button, going back one level */
+  private back(): void {
+    if (this.state === "target" && this.pending !== undefined) {
+      this.clearTargets();
+      const type = this.pending.type;
+      this.pending = undefined;
+      if (type === "skill" || type === "item") this.showList(type);
+      else this.showCommands();
+    } else if (this.state === "list") {
+      this.showCommands();
+    }
+  }
+
+  /**
+   * closes the menu and gives back the controls without choosing anything.
+   * The promise returned by open() is never resolved
+   */
+  public close(): void {
+    if (!this.isOpen()) return;
+    this.clearTargets();
+    UM.remove(this.menu);
+    IM.restore();
+    this.resolve = undefined;
+  }
+
+  /**
+   * closes the menu, gives back the controls, and resolves with a choice
+   * @param choice what the player chose
+   */
+  private finish(choice: ActionChoice): void {
+    const resolve = this.resolve;
+    this.close();
+    if (resolve !== undefined) resolve(choice);
+  }
+
+  /** get the first action of a type that the user knows */
+  private findAction(type: ActionType): BattleAction | undefined {
+    return this.user.getActions().find(a => a.type === type);
+  }
+
+  /** get all the actions of a type that the user knows */
+  private actionsOfType(type: ActionType): BattleAction[] {
+    return this.user.getActions().filter(a => a.type === type);
+  }
+}
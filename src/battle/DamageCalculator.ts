@@ -0,0 +1,102 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Combatant } from "./Combatant";
+import { RNG } from "../RandomManager";
+
+/**
+ * physical damage is based on attack and defense and can be evaded, magical
+ * damage is based on magic and resistance and can't be evaded
+ */
+export type DamageType = "physical" | "magical";
+
+/** the outcome of one damage calculation */
+export type DamageRoll = {
+  /** damage to deal before the target's own reductions, like defending */
+  amount: number;
+  /** false if the attack missed */
+  hit: boolean;
+  critical: boolean;
+};
+
+/**
+ * A function that decides how much damage one combatant deals to another.
+ * Swap in a different one to try out other formulas
+ * @param user the combatant dealing damage
+ * @param target the combatant receiving damage
+ * @param power base strength of the effect, from the action definition
+ * @param type whether the damage is physical or magical
+ */
+export type DamageCalculator = (
+  user: Combatant,
+  target: Combatant,
+  power: number,
+  type: DamageType
+) => DamageRoll;
+
+/** tuning knobs for the standard damage formula */
+export type DamageOptions = {
+  /** damage varies randomly by up to this fraction in either direction */
+  variance: number;
+  /** critical hits multiply damage by this much */
+  critMultiplier: number;
+  /** hit chance never drops below this, no matter how evasive the target */
+  minHitChance: number;
+};
+
+const defaultOptions: DamageOptions = {
+  variance: 0.1,
+  critMultiplier: 1.5,
+  minHitChance: 0.1
+};
+
+/**
+ * Creates the standard damage formula. Power is scaled by the ratio of the
+ * user's attack (or magic) to the target's defense (or resistance), so evenly
+ * matched combatants deal roughly the action's power
+ * @param options overrides for any of the default tuning knobs
+ */
+export const createStandardCalculator = (
+  options: Partial<DamageOptions> = {}
+): DamageCalculator => {
+  const opts: DamageOptions = { ...defaultOptions, ...options };
+  return (user, target, power, type): DamageRoll => {
+    const random = RNG.stream("battle");
+    const attacker = user.getEffectiveTraits();
+    const defender = target.getEffectiveTraits();
+
+    // roll to hit
+    let hitChance = attacker.accuracy;
+    if (type === "physical") hitChance -= defender.evasion;
+    hitChance = Math.max(hitChance, opts.minHitChance);
+    if (random.next() >= hitChance) {
+      return { amount: 0, hit: false, critical: false };
+    }
+
+    let amount =
+      type === "physical"
+        ? (power * attacker.attack) / Math.max(defender.defense, 1)
+        : (power * attacker.magic) / Math.max(defender.resistance, 1);
+    amount *= 1 + opts.variance * (random.next() * 2 - 1);
+    const critical = random.next() < attacker.critChance;
+    if (critical) amount *= opts.critMultiplier;
+
+    return { amount: Math.max(Math.round(amount), 1), hit: true, critical };
+  };
+};
@@ -0,0 +1,80 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/** the element of a damaging action, such as fire or ice */
+export type Element = "fire" | "ice" | "lightning" | "earth" | "light" | "dark";
+
+/**
+ * how a combatant reacts to damage of an element. "weak" takes double,
+ * "resist" takes half, "immune" takes none, and "absorb" is healed instead
+ */
+export type Affinity = "normal" | "weak" | "resist" | "immune" | "absorb";
+
+/** a combatant's affinity for each element. Missing elements are normal */
+export type Affinities = { [element in Element]?: Affinity };
+
+/** every element, in the order they're listed in menus */
+export const ELEMENTS: Element[] = [
+  "fire",
+  "ice",
+  "lightning",
+  "earth",
+  "light",
+  "dark"
+];
+
+/**
+ * damage of an element is multiplied by this for each affinity. Absorbed
+ * damage is negative, meaning it heals
+ */
+export const AFFINITY_MULTIPLIERS: { [affinity in Affinity]: number } = {
+  normal: 1,
+  weak: 2,
+  resist: 0.5,
+  immune: 0,
+  absorb: -1
+};
+
+/**
+ * get the displayed name of an element
+ * @param element the element to name
+ */
+export const elementName = (element: Element): string =>
+  element.charAt(0).toUpperCase() + element.slice(1);
+
+/**
+ * lists affinities in a few words, like "Weak: Fire  Resists: Ice"
+ * @param affinities the affinities to list. Normal ones are left out
+ */
+export const describeAffinities = (affinities: Affinities): string => {
+  const labels: [Affinity, string][] = [
+    ["weak", "Weak"],
+    ["resist", "Resists"],
+    ["immune", "Immune"],
+    ["absorb", "Absorbs"]
+  ];
+  const parts: string[] = [];
+  for (const [affinity, label] of labels) {
+    const matching = ELEMENTS.filter(e => affinities[e] === affinity);
+    if (matching.length > 0) {
+      parts.push(`${label}: ${matching.map(elementName).join(", ")}`);
+    }
+  }
+  return parts.join("  ");
+};
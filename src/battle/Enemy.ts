@@ -17,15 +17,114 @@
  * Artimancer. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Combatant } from "./Combatant";
+import { Combatant, CombatantTraits } from "./Combatant";
+import { ActionChoice } from "./BattleAction";
+import { Behaviour, getBehaviourDefinition } from "./Behaviour";
+import { enemies } from "./enemies";
+import { Affinities } from "./Element";
+import { Row } from "./Formation";
+import { AnimationState } from "./CombatantAnimation";
+import { Drop, DropTable, EMPTY_DROP_TABLE, pickDrop } from "../items/Loot";
+import { Random } from "../Random";
 
-/** Any participant in a battle that opposes the player */
+/**
+ * A data definition of a kind of enemy, such as a slime. Enemies are listed in
+ * enemies.ts, and StandardEnemy builds a combatant from one at any level
+ */
+export type EnemyDefinition = {
+  /** unique string identifier, also used as the enemy's kind */
+  id: string;
+  /** displayed name of the enemy */
+  name: string;
+  /** identifier of the behaviour the enemy follows, from behaviours.ts */
+  behaviour: string;
+  /** traits at level 1. Hp and mp start full */
+  traits: Partial<CombatantTraits>;
+  /** added to each trait for every level past 1 */
+  growth?: { [trait in keyof CombatantTraits]?: number };
+  affinities?: Affinities;
+  /** row the enemy stands in, defaults to the front */
+  row?: Row;
+  /** experience awarded per level */
+  xpReward: number;
+  /** gold and items the enemy may leave behind. Gold is per level */
+  drops?: DropTable;
+  /** items that can be stolen from the enemy, one per battle */
+  steal?: Drop[];
+  /**
+   * identifiers of the enemies from enemies.ts that take the enemy's place
+   * when it's defeated, like a big slime splitting into small ones
+   */
+  splitInto?: string[];
+  /** color of the rectangle drawn when the enemy has no sprites */
+  color: string;
+  /** labels of the sprites to draw for each animation state */
+  sprites?: { [state in AnimationState]?: string };
+};
+
+/**
+ * get an enemy definition by its identifier
+ * @param id the identifier of the enemy in enemies.ts
+ */
+export const getEnemyDefinition = (id: string): EnemyDefinition => {
+  const def = enemies[id];
+  if (def === undefined) {
+    throw new Error("Enemy: no enemy with id " + id);
+  }
+  return def;
+};
+
+/**
+ * Any participant in a battle that opposes the player. Enemies decide what to
+ * do by following a data-driven Behaviour
+ */
 export abstract class Enemy extends Combatant {
-  /** @override */
-  public abstract async takeTurn(): Promise<void>;
+  /** decides what this enemy does on its turn */
+  protected behaviour = new Behaviour(getBehaviourDefinition("brute"));
+  /** experience awarded to the player's side for defeating this enemy */
+  public xpReward = 0;
+  /** gold and items this enemy may leave behind when defeated */
+  public drops: DropTable = EMPTY_DROP_TABLE;
+  /** items that can be stolen from this enemy */
+  protected stealable: Drop[] = [];
+  /** whether something has already been stolen from this enemy */
+  private stolen = false;
+  /**
+   * identifiers of the enemies from enemies.ts that take this enemy's place
+   * when it's defeated
+   */
+  public splitInto: string[] = [];
+
+  /**
+   * follows this enemy's behaviour to choose an action
+   * @override
+   */
+  public async takeTurn(
+    allies: Combatant[],
+    opponents: Combatant[]
+  ): Promise<ActionChoice> {
+    return this.behaviour.choose(this, allies, opponents);
+  }
 
   /** @override */
   public isEnemy(): boolean {
     return true;
   }
+
+  /** returns true if there's still something to steal from this enemy */
+  public canBeStolenFrom(): boolean {
+    return !this.stolen && this.stealable.length > 0;
+  }
+
+  /**
+   * takes one of this enemy's stealable items. Only one item can be stolen
+   * from each enemy
+   * @param random the generator to pick with, usually the "loot" stream
+   * @return the stolen item, or undefined if there's nothing left to steal
+   */
+  public steal(random: Random): Drop | undefined {
+    if (!this.canBeStolenFrom()) return undefined;
+    this.stolen = true;
+    return pickDrop(this.stealable, random);
+  }
 }
@@ -0,0 +1,117 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { BattleAction } from "./BattleAction";
+import { Combatant } from "./Combatant";
+import { DamageType } from "./DamageCalculator";
+import { formations } from "./formations";
+
+/**
+ * which row a combatant stands in. Melee actions can't reach the back row
+ * while anyone is still standing in the front row
+ */
+export type Row = "front" | "back";
+
+/**
+ * A preset arrangement of a side into rows. Formations are listed in
+ * formations.ts, and the party screen can change which row each position is in
+ */
+export type Formation = {
+  /** unique string identifier */
+  id: string;
+  /** displayed name of the formation */
+  name: string;
+  /** short explanation shown in menus */
+  description: string;
+  /** the row of each position in the side, from top to bottom */
+  rows: Row[];
+};
+
+/** melee damage dealt from the back row is multiplied by this */
+export const BACK_ROW_MELEE_DEALT = 0.5;
+/** physical damage taken in the back row is multiplied by this */
+export const BACK_ROW_PHYSICAL_TAKEN = 0.75;
+
+/**
+ * get a formation by its identifier
+ * @param id the identifier of the formation in formations.ts
+ */
+export const getFormation = (id: string): Formation => {
+  const formation = formations[id];
+  if (formation === undefined) {
+    throw new Error("Formation: no formation with id " + id);
+  }
+  return formation;
+};
+
+/**
+ * puts each combatant in a side into the row its position has in a formation.
+ * Positions past the end of the formation go in the front row
+ * @param side the combatants to arrange, from top to bottom
+ * @param formation the formation to follow
+ */
+export const applyFormation = (
+  side: Combatant[],
+  formation: Formation
+): void => {
+  side.forEach((c, i) => (c.row = formation.rows[i] ?? "front"));
+};
+
+/** returns true if an action is only used up close */
+export const isMelee = (action: BattleAction): boolean =>
+  action.range === "melee";
+
+/**
+ * get the combatants in a side that an action can reach. Melee actions can
+ * only reach the front row until everyone in it has fallen
+ * @param action the action being aimed
+ * @param side living combatants on the side being targeted
+ */
+export const reachableTargets = (
+  action: BattleAction,
+  side: Combatant[]
+): Combatant[] => {
+  if (!isMelee(action)) return side;
+  const front = side.filter(c => c.isAlive() && c.row === "front");
+  return front.length > 0 ? front : side;
+};
+
+/**
+ * get how much the rows of the user and target change the damage of an
+ * action
+ * @param action the action dealing damage
+ * @param user the combatant dealing damage
+ * @param target the combatant receiving damage
+ * @param type whether the damage is physical or magical
+ */
+export const rowDamageMultiplier = (
+  action: BattleAction,
+  user: Combatant,
+  target: Combatant,
+  type: DamageType
+): number => {
+  let multiplier = 1;
+  if (isMelee(action) && user.row === "back") {
+    multiplier *= BACK_ROW_MELEE_DEALT;
+  }
+  if (type === "physical" && target.row === "back") {
+    multiplier *= BACK_ROW_PHYSICAL_TAKEN;
+  }
+  return multiplier;
+};
@@ -0,0 +1,83 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Enemy, EnemyDefinition } from "./Enemy";
+import { Behaviour, getBehaviourDefinition } from "./Behaviour";
+import { CombatantTraits } from "./Combatant";
+import { Vector } from "../Vector";
+
+/** An enemy built from a data definition in enemies.ts */
+export class StandardEnemy extends Enemy {
+  /** how strong this enemy is, starting at 1 */
+  public readonly level: number;
+  /** color of the rectangle drawn when there are no sprites */
+  private readonly color: string;
+
+  /**
+   * @param definition the kind of enemy to build
+   * @param level how strong the enemy is, starting at 1
+   * @param name displayed name, defaults to the definition's name
+   */
+  public constructor(
+    definition: EnemyDefinition,
+    level = 1,
+    name = definition.name
+  ) {
+    super();
+    this.setName(name);
+    this.setKind(definition.id);
+    this.level = level;
+    this.color = definition.color;
+    this.behaviour = new Behaviour(
+      getBehaviourDefinition(definition.behaviour)
+    );
+    const traits: CombatantTraits = { ...this.traits, ...definition.traits };
+    const growth = definition.growth ?? {};
+    for (const key of Object.keys(growth) as (keyof CombatantTraits)[]) {
+      traits[key] += (growth[key] ?? 0) * (level - 1);
+    }
+    traits.maxHp = Math.round(traits.maxHp);
+    traits.maxMp = Math.round(traits.maxMp);
+    traits.hp = traits.maxHp;
+    traits.mp = traits.maxMp;
+    this.traits = traits;
+    this.affinities = { ...definition.affinities };
+    this.row = definition.row ?? "front";
+    this.xpReward = definition.xpReward * level;
+    const drops = definition.drops ?? this.drops;
+    this.drops = {
+      gold: { min: drops.gold.min * level, max: drops.gold.max * level },
+      drops: drops.drops
+    };
+    this.stealable = [...(definition.steal ?? [])];
+    this.splitInto = [...(definition.splitInto ?? [])];
+    this.animationSprites = { ...definition.sprites };
+  }
+
+  public draw(
+    ctx: CanvasRenderingContext2D,
+    center: Vector,
+    maxHeight: number
+  ): void {
+    ctx.save();
+    ctx.fillStyle = this.color;
+    ctx.fillRect(center.x - 40, center.y - maxHeight / 2, 80, maxHeight);
+    ctx.restore();
+  }
+}
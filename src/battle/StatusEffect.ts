@@ -0,0 +1,177 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { CombatantTraits } from "./Combatant";
+import { statusEffects } from "./statusEffects";
+
+/**
+ * a change to one trait, applied once per stack. Additions are applied before
+ * multiplications
+ */
+export type TraitModifier = {
+  add?: number;
+  multiply?: number;
+};
+
+/**
+ * what happens when a status is applied to a combatant that already has it.
+ * "refresh" resets the duration, "stack" adds a stack and resets the duration,
+ * "extend" adds the full duration onto what's left, and "ignore" does nothing
+ */
+export type StackingRule = "refresh" | "stack" | "extend" | "ignore";
+
+/**
+ * A data definition of a lingering effect on a combatant, such as poison or
+ * haste. Status effects are listed in statusEffects.ts
+ */
+export type StatusDefinition = {
+  /** unique string identifier */
+  id: string;
+  /** displayed name of the status */
+  name: string;
+  /** one or two letters drawn on the icon when there's no icon sprite */
+  abbreviation: string;
+  /** background color of the icon */
+  color: string;
+  /** label of the sprite to draw as this status's icon */
+  icon?: string;
+  /** how long the status lasts */
+  duration: number;
+  /**
+   * "turns" counts down at the end of each of the afflicted combatant's turns,
+   * "rounds" counts down at the end of every round
+   */
+  durationUnit: "turns" | "rounds";
+  stacking: StackingRule;
+  /** most stacks the status can reach, if its stacking rule is "stack" */
+  maxStacks?: number;
+  /** changes to the afflicted combatant's traits, per stack */
+  modifiers?: { [trait in keyof CombatantTraits]?: TraitModifier };
+  /** hp lost at the start of each of the afflicted combatant's turns */
+  damagePerTurn?: number;
+  /** hp restored at the start of each of the afflicted combatant's turns */
+  healPerTurn?: number;
+  /** if true the afflicted combatant loses its turns */
+  skipTurn?: boolean;
+  /** multiplies damage taken by the afflicted combatant, per stack */
+  damageTakenMultiplier?: number;
+};
+
+/**
+ * get a status definition by its identifier
+ * @param id the identifier of the status in statusEffects.ts
+ */
+export const getStatusDefinition = (id: string): StatusDefinition => {
+  const def = statusEffects[id];
+  if (def === undefined) {
+    throw new Error("StatusEffect: no status with id " + id);
+  }
+  return def;
+};
+
+/** An instance of a status effect afflicting one combatant */
+export class StatusEffect {
+  /** data definition of this status */
+  public readonly definition: StatusDefinition;
+  /** turns or rounds left before this status wears off */
+  private remaining: number;
+  /** number of times this status has been stacked */
+  private stacks: number;
+
+  /**
+   * @param definition data definition of this status
+   */
+  public constructor(definition: StatusDefinition) {
+    this.definition = definition;
+    this.remaining = definition.duration;
+    this.stacks = 1;
+  }
+
+  /** get the number of times this status has been stacked */
+  public getStacks(): number {
+    return this.stacks;
+  }
+
+  /** get the number of turns or rounds left before this wears off */
+  public getRemaining(): number {
+    return this.remaining;
+  }
+
+  /**
+   * applies this status again, following its stacking rule
+   * @return false if reapplying had no effect
+   */
+  public reapply(): boolean {
+    switch (this.definition.stacking) {
+      case "refresh":
+        this.remaining = this.definition.duration;
+        return true;
+      case "stack":
+        this.remaining = this.definition.duration;
+        if (this.stacks >= (this.definition.maxStacks ?? Infinity)) {
+          return false;
+        }
+        this.stacks++;
+        return true;
+      case "extend":
+        this.remaining += this.definition.duration;
+        return true;
+      case "ignore":
+        return false;
+    }
+  }
+
+  /**
+   * applies this status's trait modifiers to a set of traits
+   * @param traits the traits to modify in place
+   */
+  public modify(traits: CombatantTraits): void {
+    const modifiers = this.definition.modifiers ?? {};
+    for (const key of Object.keys(modifiers) as (keyof CombatantTraits)[]) {
+      const mod = modifiers[key];
+      if (mod === undefined) continue;
+      traits[key] += (mod.add ?? 0) * this.stacks;
+      traits[key] *= (mod.multiply ?? 1) ** this.stacks;
+    }
+  }
+
+  /** get the multiplier this status applies to damage taken */
+  public getDamageTakenMultiplier(): number {
+    return (this.definition.damageTakenMultiplier ?? 1) ** this.stacks;
+  }
+
+  /** get the net hp change this status causes at the start of a turn */
+  public getHpPerTurn(): number {
+    const def = this.definition;
+    return ((def.healPerTurn ?? 0) - (def.damagePerTurn ?? 0)) * this.stacks;
+  }
+
+  /**
+   * counts down the duration of this status
+   * @param unit whether a turn or a round just ended
+   */
+  public countDown(unit: "turns" | "rounds"): void {
+    if (unit === this.definition.durationUnit) this.remaining--;
+  }
+
+  /** returns true once this status has worn off */
+  public isExpired(): boolean {
+    return this.remaining <= 0;
+  }
+}
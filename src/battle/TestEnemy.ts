@@ -0,0 +1,62 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+import { Enemy } from "./Enemy";
+import { Vector } from "../Vector";
+import { Behaviour, getBehaviourDefinition } from "./Behaviour";
+
+/** Plain Enemy for test purposes */
+export class TestEnemy extends Enemy {
+  /**
+   * @param name displayed name of this enemy
+   * @param behaviour identifier of the behaviour this enemy follows
+   */
+  public constructor(name = "Test Enemy", behaviour = "brute") {
+    super();
+    this.setName(name);
+    this.setKind(behaviour);
+    this.behaviour = new Behaviour(getBehaviourDefinition(behaviour));
+    this.affinities = { fire: "weak", ice: "resist" };
+    this.traits = {
+      ...this.traits,
+      speed: 4,
+      hp: 40,
+      maxHp: 40,
+      mp: 20,
+      maxMp: 20,
+      defense: 8
+    };
+    this.xpReward = 12;
+    this.drops = {
+      gold: { min: 5, max: 10 },
+      drops: [{ item: "potion", rarity: "common" }]
+    };
+    this.stealable = [{ item: "ether", rarity: "uncommon" }];
+  }
+
+  public draw(
+    ctx: CanvasRenderingContext2D,
+    center: Vector,
+    maxHeight: number
+  ): void {
+    ctx.save();
+    ctx.fillStyle = "red";
+    ctx.fillRect(center.x - 40, center.y - maxHeight / 2, 80, maxHeight);
+    ctx.restore();
+  }
+}
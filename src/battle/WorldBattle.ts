@@ -22,155 +22,373 @@ import { Combatant } from "./Combatant";
 import { Box } from "../Box";
 import { Vector } from "../Vector";
 import { CANV_SIZE } from "../DisplayManager";
+import { DamageCalculator } from "./DamageCalculator";
+import { IM } from "../InputManager";
+import { UM } from "../UIManager";
+import { WM } from "../WorldManager";
+import { BattleResultsUIElement } from "../ui/BattleResultsUIElement";
+import { WorldGameOver } from "../worlds/WorldGameOver";
+import { WorldMainMenu } from "../worlds/WorldMainMenu";
+import { TurnOrderUIElement } from "../ui/TurnOrderUIElement";
+import { BattleLogUIElement } from "../ui/BattleLogUIElement";
+import { BattleEvent, BattleListener } from "./BattleEvent";
+import { Battle, BattleRules } from "./Battle";
+import { BattleAnimator } from "./BattleAnimator";
+import { Clock } from "../Clock";
+import { applyFormation, getFormation } from "./Formation";
+import { BM } from "../BestiaryManager";
+import { Arena, getArenaDefinition } from "./Arena";
+import { RM } from "../ResourceManager";
+import { awardExperience } from "../party/PartyMember";
+import { PM } from "../PartyManager";
+import { INV } from "../InventoryManager";
 
-/** Coordinates and draws a turn-based battle */
+/** optional settings for a battle */
+export type BattleOptions = BattleRules & {
+  /**
+   * world to return to when the battle is won or escaped, such as the free
+   * roam world the encounter started from. Defaults to the main menu
+   */
+  returnWorld?: World;
+  /**
+   * game steps between battle log messages, or 0 to show them instantly.
+   * Defaults to 10
+   */
+  messageSteps?: number;
+  /**
+   * identifier of the formation the left side stands in, from formations.ts.
+   * Defaults to the party's formation. The right side keeps the rows it was
+   * created with
+   */
+  formation?: string;
+  /**
+   * identifier of the arena the battle is fought in, from arenas.ts, such as
+   * the arena of the room the encounter started in. Defaults to "plain"
+   */
+  arena?: string;
+};
+
+/** where a combatant is drawn on the screen */
+type Slot = {
+  /** which side of the battle the slot is on */
+  side: "left" | "right";
+  /** where the combatant's platform goes */
+  platform: Box;
+  /** middle of the area the combatant is drawn in */
+  center: Vector;
+  /** height of the area the combatant is drawn in */
+  height: number;
+  /** top-left corner of the combatant's row, where status icons go */
+  top: Vector;
+};
+
+/** Shows a battle on screen and lets the player take part in it */
 export class WorldBattle extends World {
   /** whether to log info */
   private noisy = true;
-  /** participants on the left side of the screen, top to bottom */
-  private readonly leftCombatants: Array<Combatant>;
-  /** participants on the right side of the screen, top to bottom */
-  private readonly rightCombatants: Array<Combatant>;
-  /** queue of participants in turn order for this round */
-  private upNext: Array<Combatant>;
+  /** the rules of the battle being shown */
+  private readonly battle: Battle;
+  /** shows the order combatants will act in */
+  private readonly timeline: TurnOrderUIElement;
+  /** shows messages describing what happens */
+  private readonly log: BattleLogUIElement;
+  /** plays animations for what happens */
+  private readonly animator: BattleAnimator;
+  /** the scenery the battle is fought in */
+  private readonly arena: Arena;
+  /** times animations */
+  private readonly clock: Clock;
+  /** optional settings for this battle */
+  private readonly options: BattleOptions;
+  /** panel shown once the battle is over */
+  private resultsUI: BattleResultsUIElement | undefined;
+  /**
+   * where each combatant was last drawn. Combatants that leave the battle
+   * keep their slot until their exit has played
+   */
+  private readonly slots: Map<Combatant, Slot>;
 
   /**
    * @param leftCombatants must contain 1-5 Combatants
    * @param rightCombatants must contain 1-5 Combatants
+   * @param options optional settings for this battle
    */
   public constructor(
     leftCombatants: Array<Combatant>,
-    rightCombatants: Array<Combatant>
+    rightCombatants: Array<Combatant>,
+    options: BattleOptions = {}
   ) {
     super();
-    if (leftCombatants.length < 1 || leftCombatants.length > 5) {
-      throw new Error(
-        "WorldBattle constructor: leftCombatants must have length 1-5, not " +
-          leftCombatants.length
-      );
-    }
-    if (rightCombatants.length < 1 || rightCombatants.length > 5) {
-      throw new Error(
-        "WorldBattle constructor: rightCombatants must have length 1-5, not " +
-          rightCombatants.length
-      );
-    }
     this.setType("Battle");
-    this.leftCombatants = leftCombatants;
-    this.rightCombatants = rightCombatants;
-    this.upNext = [];
+    applyFormation(
+      leftCombatants,
+      options.formation !== undefined
+        ? getFormation(options.formation)
+        : PM.getFormation()
+    );
+    this.battle = new Battle(leftCombatants, rightCombatants, options);
+    this.timeline = new TurnOrderUIElement(this.battle);
+    this.log = new BattleLogUIElement(options.messageSteps);
+    this.animator = new BattleAnimator(this.locate.bind(this));
+    this.arena = new Arena(getArenaDefinition(options.arena ?? "plain"));
+    this.clock = new Clock();
+    this.options = options;
+    this.resultsUI = undefined;
+    this.slots = new Map<Combatant, Slot>();
+    this.battle.addListener(this.log.addEvent.bind(this.log));
+    this.battle.addListener(this.onEvent.bind(this));
+    this.battle.setPresenter(this.animator.present.bind(this.animator));
+    for (const c of leftCombatants) c.animation.facing = 1;
+    for (const c of rightCombatants) c.animation.facing = -1;
   }
 
-  private allCombatants(): Array<Combatant> {
-    return [...this.leftCombatants, ...this.rightCombatants];
+  /**
+   * replace the formula used to calculate damage in this battle
+   * @param calculator the new damage formula
+   */
+  public setDamageCalculator(calculator: DamageCalculator): void {
+    this.battle.setDamageCalculator(calculator);
   }
 
-  /** clears upNext, then populates it with combatants in speed order */
-  private calculateTurnOrder(): void {
-    this.upNext = this.allCombatants().sort((a, b) => {
-      const diff = b.traits.speed - a.traits.speed;
-      if (diff !== 0) return diff;
-      // equal speeds get sorted randomly
-      return 0.5 - Math.random();
-    });
+  /**
+   * registers a function to call with everything that happens in this battle
+   * @param listener the function to call with each event
+   */
+  public addListener(listener: BattleListener): void {
+    this.battle.addListener(listener);
   }
 
   /** @override */
   public enter(): void {
     if (this.noisy) console.log("Entering a Battle");
-    this.calculateTurnOrder();
-    this.takeTurn();
+    UM.push(this.timeline);
+    UM.push(this.log);
+    IM.registerButton("export log", "l");
+    IM.setOnPressed("export log", this.log.exportText.bind(this.log));
+    this.clock.delta();
+    this.getMusic()
+      ?.play()
+      .catch(() => {
+        // browsers refuse to play audio before the player interacts
+        if (this.noisy) console.log("Battle: music was blocked");
+      });
+    this.battle.start();
   }
 
-  /** the combatant who is up next takes a turn */
-  private takeTurn(): void {
-    if (!this.allCombatants().some(c => c.isEnemy())) {
-      // no enemies left, the player won
-      // TODO implement
-      return;
+  /**
+   * reacts to things happening in the battle
+   * @param event something that happened in the battle
+   */
+  private onEvent(event: BattleEvent): void {
+    if (event.type === "affinity" && event.target.isEnemy()) {
+      // remember what was learned for next time
+      BM.discoverAffinity(
+        event.target.getKind(),
+        event.element,
+        event.affinity
+      );
     }
-    if (this.upNext.length === 0) {
-      // end of round
-      this.calculateTurnOrder();
+    if (event.type === "battle end") {
+      // the winning side celebrates, and nobody does after an escape
+      if (event.outcome !== "escape") {
+        const winners = event.outcome === "defeat";
+        for (const c of this.battle.allCombatants()) {
+          if (c.isAlive() && c.isEnemy() === winners) {
+            c.animation.play("victory");
+          }
+        }
+      }
+      // party members keep what happened to them, and share the experience
+      const results = this.battle.collectResults();
+      const levelUps = awardExperience(
+        [...this.battle.allCombatants(), ...this.battle.getDeparted()].filter(
+          c => !c.isEnemy()
+        ),
+        results.xp
+      );
+      const leftBehind = INV.deposit(results);
+      // show the results until the player presses the primary button
+      this.resultsUI = new BattleResultsUIElement(
+        results,
+        levelUps,
+        leftBehind
+      );
+      UM.push(this.resultsUI);
+      IM.setOnPressed("primary", this.leave.bind(this));
+    }
+  }
+
+  /**
+   * leaves the battle once it's over, returning to the previous world or
+   * going to the game over screen
+   */
+  private leave(): void {
+    const outcome = this.battle.getOutcome();
+    if (outcome === undefined) return;
+    if (outcome === "defeat") {
+      WM.enterWorld(new WorldGameOver());
+    } else {
+      WM.enterWorld(this.options.returnWorld ?? new WorldMainMenu());
     }
-    this.upNext[0].takeTurn().then(() => {
-      this.upNext.shift();
-      this.takeTurn();
-    });
   }
 
   /** @override */
-  public draw(ctx: CanvasRenderingContext2D): void {
+  public exit(): void {
+    this.getMusic()?.pause();
+    IM.setOnPressed("primary", undefined);
+    UM.remove(this.timeline);
+    UM.remove(this.log);
+    IM.unregisterButton("export log");
+    if (this.resultsUI !== undefined) {
+      UM.remove(this.resultsUI);
+      this.resultsUI = undefined;
+    }
+  }
+
+  /**
+   * get the music track for this battle's arena, if it has one. Warns if the
+   * arena names a track that isn't in resources.ts
+   */
+  private getMusic(): HTMLAudioElement | undefined {
+    const label = this.arena.definition.music;
+    if (label === undefined) return undefined;
+    const music = RM.getMusic(label);
+    if (music === undefined) {
+      console.warn(`Battle: no music track with label ${label}`);
+    }
+    return music;
+  }
+
+  /**
+   * works out where each combatant is drawn. Each side is a column, staggered
+   * so that lower combatants are further toward the middle, and the front row
+   * stands closer to the middle than the back row
+   */
+  private layout(): Map<Combatant, Slot> {
     const platformHeight = 40;
     const platformWidth = 100;
     const xMargin = 50;
     const xStagger = 40;
-    // TODO draw background
-    // left side
-    WorldBattle.drawColumn(
-      ctx,
-      this.leftCombatants,
-      xMargin,
-      platformWidth,
-      platformHeight,
-      xStagger
+    const rowDepth = 60;
+    const slots = new Map<Combatant, Slot>();
+    const column = (
+      combatants: Combatant[],
+      startingX: number,
+      towardMiddle: 1 | -1
+    ): void => {
+      const side = towardMiddle === 1 ? "left" : "right";
+      let xOffset = startingX;
+      let rowHeight = CANV_SIZE / combatants.length;
+      let yOffset = 0;
+      if (combatants.length === 1) {
+        rowHeight = CANV_SIZE / 2;
+        yOffset = CANV_SIZE / 4;
+      }
+      if (combatants.length === 2) {
+        rowHeight = CANV_SIZE / 3;
+        yOffset = CANV_SIZE / 6;
+      }
+      for (const c of combatants) {
+        const x = xOffset + (c.row === "front" ? rowDepth * towardMiddle : 0);
+        slots.set(c, {
+          side: side,
+          platform: new Box(
+            new Vector(x, yOffset + rowHeight - platformHeight),
+            platformWidth,
+            platformHeight
+          ),
+          center: new Vector(x + platformWidth / 2, yOffset + rowHeight / 2),
+          height: rowHeight - platformHeight,
+          top: new Vector(x, yOffset)
+        });
+        xOffset += xStagger;
+        yOffset += rowHeight;
+      }
+    };
+    const right = this.battle.getRightCombatants();
+    column(this.battle.getLeftCombatants(), xMargin, 1);
+    column(
+      right,
+      CANV_SIZE - platformWidth - xStagger * right.length - xMargin,
+      -1
     );
-    // right side
-    WorldBattle.drawColumn(
-      ctx,
-      this.rightCombatants,
-      CANV_SIZE -
-        platformWidth -
-        xStagger * this.rightCombatants.length -
-        xMargin,
-      platformWidth,
-      platformHeight,
-      xStagger
-    );
-    return;
+    return slots;
   }
 
-  private static drawColumn(
-    ctx: CanvasRenderingContext2D,
-    combatants: Array<Combatant>,
-    startingX: number,
-    platformWidth: number,
-    platformHeight: number,
-    xStagger: number
-  ): void {
-    let xOffset = startingX;
-    let rowHeight = CANV_SIZE / combatants.length;
-    let yOffset = 0;
-    if (combatants.length === 1) {
-      rowHeight = CANV_SIZE / 2;
-      yOffset = CANV_SIZE / 4;
-    }
-    if (combatants.length === 2) {
-      rowHeight = CANV_SIZE / 3;
-      yOffset = CANV_SIZE / 6;
-    }
-    for (const c of combatants) {
-      c.drawPlatform(
-        ctx,
-        new Box(
-          new Vector(xOffset, yOffset + rowHeight - platformHeight),
-          platformWidth,
-          platformHeight
-        )
-      );
-      c.draw(
-        ctx,
-        new Vector(xOffset + platformWidth / 2, yOffset + rowHeight / 2),
-        rowHeight - platformHeight
-      );
-      xOffset += xStagger;
-      yOffset += rowHeight;
-    }
+  /**
+   * updates where each combatant is drawn. Combatants that left the battle
+   * stay where they last stood until their die or leave animation ends
+   * @return slots of combatants that left first, then everyone still here
+   */
+  private updateSlots(): Map<Combatant, Slot> {
+    const current = this.layout();
+    const slots = new Map<Combatant, Slot>();
+    this.slots.forEach((slot, c) => {
+      if (current.has(c)) return;
+      if (c.animation.hasEnded()) this.slots.delete(c);
+      else slots.set(c, slot);
+    });
+    current.forEach((slot, c) => {
+      this.slots.set(c, slot);
+      slots.set(c, slot);
+    });
+    return slots;
+  }
+
+  /**
+   * get the middle of where a combatant is drawn
+   * @param c a combatant in this battle, or one that just left
+   */
+  private locate(c: Combatant): Vector {
+    const slot = this.updateSlots().get(c);
+    return slot?.center ?? new Vector(CANV_SIZE / 2, CANV_SIZE / 2);
+  }
+
+  /** @override */
+  public draw(ctx: CanvasRenderingContext2D): void {
+    this.arena.drawBackground(ctx);
+    this.updateSlots().forEach((slot, c) => {
+      c.drawPlatform(ctx, slot.platform, this.arena.getPlatform(slot.side));
+      c.drawAnimated(ctx, slot.center, slot.height);
+      c.drawStatusIcons(ctx, slot.top);
+      const gauge = this.battle.getGauge(c);
+      if (gauge !== undefined && c.isAlive()) {
+        // ATB time gauge along the bottom of the platform
+        const bar = slot.platform;
+        const barY = bar.topLeft.y + bar.height - 10;
+        ctx.save();
+        ctx.fillStyle = "#232629";
+        ctx.fillRect(bar.topLeft.x, barY, bar.width, 8);
+        ctx.fillStyle = gauge >= 1 ? "#f2c12e" : "#3daee9";
+        ctx.fillRect(bar.topLeft.x, barY, bar.width * gauge, 8);
+        ctx.restore();
+      }
+      if (c.targeted) {
+        // draw a cursor pointing down at the combatant
+        const tip = new Vector(slot.center.x, slot.top.y + 10);
+        ctx.save();
+        ctx.fillStyle = "#f2c12e";
+        ctx.beginPath();
+        ctx.moveTo(tip.x, tip.y);
+        ctx.lineTo(tip.x - 15, tip.y - 25);
+        ctx.lineTo(tip.x + 15, tip.y - 25);
+        ctx.closePath();
+        ctx.fill();
+        ctx.restore();
+      }
+    });
+    this.arena.drawForeground(ctx);
+    this.animator.draw(ctx);
   }
 
   /** @override */
   public step(): void {
-    // TODO implement
-    return;
+    const ms = this.clock.delta();
+    this.arena.step(ms);
+    this.animator.step(ms, [
+      ...this.battle.allCombatants(),
+      ...this.battle.getDeparted()
+    ]);
+    this.battle.step();
   }
 }
@@ -0,0 +1,243 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { BattleAction } from "./BattleAction";
+
+/**
+ * List all battle actions here, indexed by id
+ */
+export const actions: { [id: string]: BattleAction } = {
+  attack: {
+    id: "attack",
+    name: "Attack",
+    description: "A basic strike against one enemy",
+    type: "attack",
+    target: "single enemy",
+    range: "melee",
+    cost: {},
+    effects: [{ kind: "damage", power: 10, damageType: "physical" }],
+    effectSprite: "effect-slash"
+  },
+  defend: {
+    id: "defend",
+    name: "Defend",
+    description: "Halve damage taken until your next turn",
+    type: "defend",
+    target: "self",
+    cost: {},
+    effects: [{ kind: "defend" }]
+  },
+  "change-row": {
+    id: "change-row",
+    name: "Change Row",
+    description: "Move between the front and back rows",
+    type: "formation",
+    target: "self",
+    cost: {},
+    effects: [{ kind: "change row" }]
+  },
+  flee: {
+    id: "flee",
+    name: "Flee",
+    description: "Attempt to escape from the battle",
+    type: "flee",
+    target: "self",
+    cost: {},
+    effects: [{ kind: "flee", chance: 0.5 }]
+  },
+  cleave: {
+    id: "cleave",
+    name: "Cleave",
+    description: "A wide swing that hits an enemy and those beside it",
+    type: "skill",
+    target: "row",
+    range: "melee",
+    cost: { mp: 4 },
+    effects: [{ kind: "damage", power: 8, damageType: "physical" }],
+    effectSprite: "effect-slash"
+  },
+  quake: {
+    id: "quake",
+    name: "Quake",
+    description: "Shake the ground beneath every enemy",
+    type: "skill",
+    target: "all enemies",
+    element: "earth",
+    cost: { mp: 8 },
+    effects: [{ kind: "damage", power: 6, damageType: "magical" }],
+    effectSprite: "effect-magic"
+  },
+  flame: {
+    id: "flame",
+    name: "Flame",
+    description: "Engulf one enemy in fire",
+    type: "skill",
+    target: "single enemy",
+    element: "fire",
+    cost: { mp: 4 },
+    effects: [{ kind: "damage", power: 9, damageType: "magical" }],
+    effectSprite: "effect-magic"
+  },
+  frost: {
+    id: "frost",
+    name: "Frost",
+    description: "Chill one enemy with ice",
+    type: "skill",
+    target: "single enemy",
+    element: "ice",
+    cost: { mp: 4 },
+    effects: [{ kind: "damage", power: 9, damageType: "magical" }],
+    effectSprite: "effect-magic"
+  },
+  mend: {
+    id: "mend",
+    name: "Mend",
+    description: "Restore some health to one ally",
+    type: "skill",
+    target: "single ally",
+    cost: { mp: 3 },
+    effects: [{ kind: "heal", power: 15 }],
+    effectSprite: "effect-magic"
+  },
+  rally: {
+    id: "rally",
+    name: "Rally",
+    description: "Restore a little health to every ally",
+    type: "skill",
+    target: "all allies",
+    cost: { mp: 6 },
+    effects: [{ kind: "heal", power: 8 }],
+    effectSprite: "effect-magic"
+  },
+  "blood-pact": {
+    id: "blood-pact",
+    name: "Blood Pact",
+    description: "Trade health for a heavy blow",
+    type: "skill",
+    target: "single enemy",
+    range: "melee",
+    cost: { hp: 5 },
+    effects: [{ kind: "damage", power: 18, damageType: "physical" }],
+    effectSprite: "effect-slash"
+  },
+  venom: {
+    id: "venom",
+    name: "Venom",
+    description: "A poisoned strike",
+    type: "skill",
+    target: "single enemy",
+    range: "melee",
+    cost: { mp: 3 },
+    effects: [
+      { kind: "damage", power: 5, damageType: "physical" },
+      { kind: "status", status: "poison", chance: 0.8 }
+    ],
+    effectSprite: "effect-slash"
+  },
+  bash: {
+    id: "bash",
+    name: "Bash",
+    description: "A heavy blow that may stun",
+    type: "skill",
+    target: "single enemy",
+    range: "melee",
+    cost: { mp: 5 },
+    effects: [
+      { kind: "damage", power: 8, damageType: "physical" },
+      { kind: "status", status: "stun", chance: 0.35 }
+    ],
+    effectSprite: "effect-slash"
+  },
+  haste: {
+    id: "haste",
+    name: "Haste",
+    description: "Quicken one ally",
+    type: "skill",
+    target: "single ally",
+    cost: { mp: 6 },
+    effects: [{ kind: "status", status: "haste", chance: 1 }],
+    effectSprite: "effect-magic"
+  },
+  barrier: {
+    id: "barrier",
+    name: "Barrier",
+    description: "Shield every ally from half of all damage",
+    type: "skill",
+    target: "all allies",
+    cost: { mp: 10 },
+    effects: [{ kind: "status", status: "shield", chance: 1 }],
+    effectSprite: "effect-magic"
+  },
+  steal: {
+    id: "steal",
+    name: "Steal",
+    description: "Try to steal an item from one enemy",
+    type: "skill",
+    target: "single enemy",
+    range: "melee",
+    cost: {},
+    effects: [{ kind: "steal", chance: 0.6 }]
+  },
+  "call-slime": {
+    id: "call-slime",
+    name: "Call Slime",
+    description: "Calls a slime to join the fight",
+    type: "skill",
+    target: "self",
+    cost: { mp: 6 },
+    effects: [{ kind: "summon", enemy: "slime" }],
+    effectSprite: "effect-magic"
+  },
+  "fly-away": {
+    id: "fly-away",
+    name: "Fly Away",
+    description: "Leave the battle",
+    type: "flee",
+    target: "self",
+    cost: {},
+    effects: [{ kind: "retreat" }]
+  },
+  antidote: {
+    id: "antidote",
+    name: "Antidote",
+    description: "Cures poison",
+    type: "item",
+    target: "single ally",
+    cost: { item: "antidote" },
+    effects: [{ kind: "cure", status: "poison" }]
+  },
+  potion: {
+    id: "potion",
+    name: "Potion",
+    description: "Restores 25 health to one ally",
+    type: "item",
+    target: "single ally",
+    cost: { item: "potion" },
+    effects: [{ kind: "heal", power: 25 }]
+  },
+  ether: {
+    id: "ether",
+    name: "Ether",
+    description: "Restores 10 mp to one ally",
+    type: "item",
+    target: "single ally",
+    cost: { item: "ether" },
+    effects: [{ kind: "restore mp", power: 10 }]
+  }
+};
@@ -0,0 +1,75 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ArenaDefinition } from "./Arena";
+
+/**
+ * List all battle arenas here, indexed by id
+ */
+export const arenas: { [id: string]: ArenaDefinition } = {
+  plain: {
+    id: "plain",
+    name: "Plain",
+    layers: [],
+    platforms: { left: "default-platform", right: "default-platform" }
+  },
+  field: {
+    id: "field",
+    name: "Grassy Field",
+    layers: [
+      { sprite: "arena-field-sky" },
+      { sprite: "arena-field-clouds", drift: 12 },
+      { sprite: "arena-field-hills" }
+    ],
+    platforms: { left: "platform-grass", right: "platform-grass" },
+    ambient: [
+      {
+        count: 12,
+        color: "rgba(255, 255, 255, 0.6)",
+        size: 3,
+        velocity: { x: 20, y: 15 },
+        sway: 10
+      }
+    ]
+  },
+  cave: {
+    id: "cave",
+    name: "Cave",
+    layers: [
+      { sprite: "arena-cave-back" },
+      { sprite: "arena-cave-front", foreground: true }
+    ],
+    platforms: { left: "platform-stone", right: "platform-stone" },
+    ambient: [
+      {
+        count: 6,
+        color: "rgba(140, 200, 255, 0.7)",
+        size: 2,
+        velocity: { x: 0, y: 220 }
+      },
+      {
+        count: 20,
+        color: "rgba(200, 190, 170, 0.25)",
+        size: 2,
+        velocity: { x: 6, y: -4 },
+        sway: 6
+      }
+    ]
+  }
+};
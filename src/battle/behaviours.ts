@@ -0,0 +1,150 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { BehaviourDefinition } from "./Behaviour";
+
+/**
+ * List all enemy behaviours here, indexed by id
+ */
+export const behaviours: { [id: string]: BehaviourDefinition } = {
+  brute: {
+    id: "brute",
+    phases: [
+      {
+        name: "Normal",
+        rules: [],
+        actions: [
+          { action: "attack", weight: 3, target: "random opponent" },
+          { action: "attack", weight: 1, target: "lowest hp opponent" }
+        ]
+      }
+    ]
+  },
+  shaman: {
+    id: "shaman",
+    phases: [
+      {
+        name: "Normal",
+        rules: [
+          {
+            conditions: [{ type: "ally hp below", fraction: 0.3 }],
+            action: "mend",
+            target: "lowest hp ally"
+          },
+          {
+            conditions: [
+              { type: "opponent missing status", status: "poison" },
+              { type: "chance", chance: 0.5 }
+            ],
+            action: "venom",
+            target: "random opponent"
+          }
+        ],
+        actions: [
+          { action: "attack", weight: 2, target: "random opponent" },
+          { action: "defend", weight: 1, target: "self" }
+        ]
+      }
+    ]
+  },
+  conjurer: {
+    id: "conjurer",
+    phases: [
+      {
+        name: "Normal",
+        rules: [
+          {
+            conditions: [
+              { type: "allies below", count: 3 },
+              { type: "chance", chance: 0.4 }
+            ],
+            action: "call-slime",
+            target: "self"
+          },
+          {
+            conditions: [{ type: "ally hp below", fraction: 0.3 }],
+            action: "mend",
+            target: "lowest hp ally"
+          }
+        ],
+        actions: [
+          { action: "attack", weight: 2, target: "random opponent" },
+          { action: "defend", weight: 1, target: "self" }
+        ]
+      }
+    ]
+  },
+  skittish: {
+    id: "skittish",
+    phases: [
+      {
+        name: "Normal",
+        rules: [
+          {
+            conditions: [
+              { type: "hp below", fraction: 0.3 },
+              { type: "chance", chance: 0.5 }
+            ],
+            action: "fly-away",
+            target: "self"
+          }
+        ],
+        actions: [
+          { action: "attack", weight: 3, target: "random opponent" },
+          { action: "attack", weight: 1, target: "lowest hp opponent" }
+        ]
+      }
+    ]
+  },
+  warlord: {
+    id: "warlord",
+    phases: [
+      {
+        name: "Confident",
+        rules: [],
+        actions: [
+          { action: "attack", weight: 3, target: "random opponent" },
+          { action: "bash", weight: 1, target: "highest hp opponent" }
+        ]
+      },
+      {
+        name: "Enraged",
+        hpBelow: 0.5,
+        script: [
+          { action: "haste", target: "self" },
+          { action: "quake", target: "random opponent" }
+        ],
+        rules: [
+          {
+            conditions: [
+              { type: "hp below", fraction: 0.2 },
+              { type: "missing status", status: "shield" }
+            ],
+            action: "barrier",
+            target: "self"
+          }
+        ],
+        actions: [
+          { action: "cleave", weight: 2, target: "lowest hp opponent" },
+          { action: "bash", weight: 1, target: "random opponent" }
+        ]
+      }
+    ]
+  }
+};
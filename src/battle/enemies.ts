@@ -0,0 +1,136 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { EnemyDefinition } from "./Enemy";
+
+/**
+ * List all kinds of enemies here, indexed by id
+ */
+export const enemies: { [id: string]: EnemyDefinition } = {
+  slime: {
+    id: "slime",
+    name: "Slime",
+    behaviour: "brute",
+    traits: { speed: 3, maxHp: 30, attack: 8, defense: 6, evasion: 0 },
+    growth: { maxHp: 6, attack: 1, defense: 1 },
+    affinities: { fire: "weak", ice: "resist" },
+    xpReward: 5,
+    drops: {
+      gold: { min: 2, max: 5 },
+      drops: [
+        { item: "slime-gel", rarity: "common" },
+        { item: "potion", rarity: "uncommon" }
+      ]
+    },
+    steal: [{ item: "slime-gel", rarity: "common" }],
+    color: "#6fd66f"
+  },
+  "big-slime": {
+    id: "big-slime",
+    name: "Big Slime",
+    behaviour: "brute",
+    traits: { speed: 2, maxHp: 50, attack: 10, defense: 8, evasion: 0 },
+    growth: { maxHp: 10, attack: 1, defense: 1 },
+    affinities: { fire: "weak", ice: "resist" },
+    xpReward: 8,
+    drops: {
+      gold: { min: 4, max: 8 },
+      drops: [{ item: "slime-gel", rarity: "common", count: 2 }]
+    },
+    splitInto: ["slime", "slime"],
+    color: "#4fb64f"
+  },
+  bat: {
+    id: "bat",
+    name: "Bat",
+    behaviour: "skittish",
+    traits: { speed: 8, maxHp: 20, attack: 9, defense: 5, evasion: 0.2 },
+    growth: { maxHp: 4, attack: 1, speed: 0.5 },
+    affinities: { lightning: "weak", earth: "immune" },
+    xpReward: 6,
+    drops: {
+      gold: { min: 3, max: 6 },
+      drops: [{ item: "bat-wing", rarity: "common" }]
+    },
+    steal: [
+      { item: "bat-wing", rarity: "common" },
+      { item: "swift-boots", rarity: "very rare" }
+    ],
+    color: "#7b5ea7"
+  },
+  "goblin-shaman": {
+    id: "goblin-shaman",
+    name: "Goblin Shaman",
+    behaviour: "conjurer",
+    traits: {
+      speed: 5,
+      maxHp: 35,
+      maxMp: 20,
+      attack: 7,
+      magic: 12,
+      resistance: 12
+    },
+    growth: { maxHp: 5, maxMp: 2, magic: 1, resistance: 1 },
+    affinities: { dark: "absorb", light: "weak" },
+    row: "back",
+    xpReward: 9,
+    drops: {
+      gold: { min: 6, max: 10 },
+      drops: [
+        { item: "ether", rarity: "uncommon" },
+        { item: "oak-staff", rarity: "rare" }
+      ]
+    },
+    steal: [
+      { item: "ether", rarity: "common" },
+      { item: "ember-ring", rarity: "rare" }
+    ],
+    color: "#c4a000"
+  },
+  "cave-troll": {
+    id: "cave-troll",
+    name: "Cave Troll",
+    behaviour: "warlord",
+    traits: {
+      speed: 2,
+      maxHp: 90,
+      maxMp: 30,
+      attack: 14,
+      defense: 12,
+      evasion: 0
+    },
+    growth: { maxHp: 15, attack: 2, defense: 1 },
+    affinities: { fire: "weak", earth: "resist" },
+    xpReward: 25,
+    drops: {
+      gold: { min: 20, max: 30 },
+      drops: [
+        { item: "troll-tusk", rarity: "common" },
+        { item: "potion", rarity: "common", count: 2 },
+        { item: "antidote", rarity: "uncommon" },
+        { item: "rusty-key", rarity: "very rare" }
+      ]
+    },
+    steal: [
+      { item: "potion", rarity: "common" },
+      { item: "leather-armour", rarity: "rare" }
+    ],
+    color: "#8a6d5a"
+  }
+};
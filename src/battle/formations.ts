@@ -0,0 +1,50 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Formation } from "./Formation";
+
+/**
+ * List all formation presets here, indexed by id
+ */
+export const formations: { [id: string]: Formation } = {
+  standard: {
+    id: "standard",
+    name: "Standard",
+    description: "Three up front, two behind",
+    rows: ["front", "front", "front", "back", "back"]
+  },
+  vanguard: {
+    id: "vanguard",
+    name: "Vanguard",
+    description: "Everyone fights up close",
+    rows: ["front", "front", "front", "front", "front"]
+  },
+  rearguard: {
+    id: "rearguard",
+    name: "Rearguard",
+    description: "One holds the line while the rest hang back",
+    rows: ["front", "back", "back", "back", "back"]
+  },
+  staggered: {
+    id: "staggered",
+    name: "Staggered",
+    description: "Front and back rows alternate",
+    rows: ["front", "back", "front", "back", "front"]
+  }
+};
@@ -0,0 +1,98 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { StatusDefinition } from "./StatusEffect";
+
+/**
+ * List all status effects here, indexed by id
+ */
+export const statusEffects: { [id: string]: StatusDefinition } = {
+  poison: {
+    id: "poison",
+    name: "Poison",
+    abbreviation: "Ps",
+    color: "#7b3fa0",
+    duration: 3,
+    durationUnit: "turns",
+    stacking: "stack",
+    maxStacks: 3,
+    damagePerTurn: 4
+  },
+  regen: {
+    id: "regen",
+    name: "Regen",
+    abbreviation: "Rg",
+    color: "#3fa05a",
+    duration: 3,
+    durationUnit: "rounds",
+    stacking: "refresh",
+    healPerTurn: 5
+  },
+  stun: {
+    id: "stun",
+    name: "Stun",
+    abbreviation: "St",
+    color: "#c9a227",
+    duration: 1,
+    durationUnit: "turns",
+    stacking: "ignore",
+    skipTurn: true
+  },
+  haste: {
+    id: "haste",
+    name: "Haste",
+    abbreviation: "Hs",
+    color: "#2a8fd6",
+    duration: 3,
+    durationUnit: "rounds",
+    stacking: "extend",
+    modifiers: { speed: { multiply: 1.5 } }
+  },
+  slow: {
+    id: "slow",
+    name: "Slow",
+    abbreviation: "Sl",
+    color: "#5a6b7b",
+    duration: 3,
+    durationUnit: "rounds",
+    stacking: "refresh",
+    modifiers: { speed: { multiply: 0.5 } }
+  },
+  shield: {
+    id: "shield",
+    name: "Shield",
+    abbreviation: "Sh",
+    color: "#a0a8b0",
+    duration: 2,
+    durationUnit: "rounds",
+    stacking: "refresh",
+    damageTakenMultiplier: 0.5
+  },
+  weaken: {
+    id: "weaken",
+    name: "Weaken",
+    abbreviation: "Wk",
+    color: "#a04a3f",
+    duration: 2,
+    durationUnit: "turns",
+    stacking: "stack",
+    maxStacks: 2,
+    modifiers: { attack: { add: -3 }, magic: { add: -3 } }
+  }
+};
@@ -0,0 +1,266 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Box } from "../Box";
+import { IM } from "../InputManager";
+import { INV } from "../InventoryManager";
+import { PM } from "../PartyManager";
+import { UM } from "../UIManager";
+import { Vector } from "../Vector";
+import { getAction } from "../battle/BattleAction";
+import { describeAffinities } from "../battle/Element";
+import { PartyMember } from "../party/PartyMember";
+import { MenuUIElement } from "../ui/MenuUIElement";
+import { TraitComparisonUIElement } from "../ui/TraitComparisonUIElement";
+import { EQUIPMENT_SLOTS, slotName } from "./Equipment";
+import { ItemDefinition } from "./Item";
+
+/**
+ * The screen the player uses to change what party members wear. After
+ * choosing a member and a slot, the equipment in the inventory that fits the
+ * slot is listed, and a panel beside the list compares the member's traits
+ * before and after putting on the highlighted piece
+ */
+export class EquipScreen {
+  /** the menu panel */
+  private readonly menu: MenuUIElement;
+  /** the panel comparing traits */
+  private readonly comparison: TraitComparisonUIElement;
+  /** which part of the screen the player is in */
+  private state: "member" | "slot" | "item";
+  /** the party member being equipped */
+  private member: PartyMember | undefined;
+  /** index of the slot being changed, in EQUIPMENT_SLOTS */
+  private slot: number;
+  /**
+   * what each line of the item list puts on, where undefined takes off what's
+   * worn
+   */
+  private listed: (ItemDefinition | undefined)[];
+  /** resolves the promise returned by open() */
+  private resolve: (() => void) | undefined;
+
+  public constructor() {
+    this.menu = new MenuUIElement(
+      "equip-screen",
+      new Box(new Vector(60, 100), 460, 640),
+      "",
+      []
+    );
+    this.comparison = new TraitComparisonUIElement(
+      "equip-comparison",
+      new Box(new Vector(540, 100), 400, 640)
+    );
+    this.state = "member";
+    this.member = undefined;
+    this.slot = 0;
+    this.listed = [];
+    this.resolve = undefined;
+  }
+
+  /**
+   * shows the screen and takes over the controls until the player closes it
+   * @return a promise that resolves once the screen is closed
+   */
+  public open(): Promise<void> {
+    return new Promise<void>(resolve => {
+      this.resolve = resolve;
+      IM.save();
+      IM.enterMenuMode();
+      IM.setDirectionalFunction("navigation", this.navigate.bind(this));
+      IM.setOnPressed("enter", this.confirm.bind(this));
+      IM.setOnPressed("cancel", this.back.bind(this));
+      this.showMembers();
+      UM.push(this.menu);
+      UM.push(this.comparison);
+    });
+  }
+
+  /** returns true while the screen is open */
+  public isOpen(): boolean {
+    return this.resolve !== undefined;
+  }
+
+  /**
+   * lists the party members
+   * @param cursor which line to highlight
+   */
+  private showMembers(cursor = 0): void {
+    this.state = "member";
+    this.member = undefined;
+    this.menu.setOptions(
+      "Equip",
+      PM.getMembers().map(m => ({
+        label: `${m.getName()}  Lv ${m.getLevel()}`,
+        enabled: true
+      }))
+    );
+    this.menu.moveCursor(cursor);
+    this.updateComparison();
+  }
+
+  /**
+   * lists the chosen member's slots and what's worn in each
+   * @param cursor which line to highlight
+   */
+  private showSlots(cursor = 0): void {
+    const member = this.member;
+    if (member === undefined) return;
+    this.state = "slot";
+    this.menu.setOptions(
+      member.getName(),
+      EQUIPMENT_SLOTS.map(slot => {
+        const worn = member.getEquipped(slot);
+        return {
+          label: `${slotName(slot)}: ${worn?.name ?? "nothing"}`,
+          enabled: true,
+          description: worn?.description
+        };
+      })
+    );
+    this.menu.moveCursor(cursor);
+    this.updateComparison();
+  }
+
+  /** lists the equipment in the inventory that fits the chosen slot */
+  private showItems(): void {
+    const member = this.member;
+    if (member === undefined) return;
+    this.state = "item";
+    const slot = EQUIPMENT_SLOTS[this.slot];
+    const stacks = INV.getInventory()
+      .getStacks("equipment")
+      .filter(s => s.item.equipment?.slot === slot);
+    this.listed = [undefined, ...stacks.map(s => s.item)];
+    this.menu.setOptions(slotName(slot), [
+      {
+        label: "Take off",
+        enabled: member.getEquipped(slot) !== undefined
+      },
+      ...stacks.map(s => ({
+        label: `${s.item.name} ×${s.count}`,
+        enabled: true,
+        description: s.item.description
+      }))
+    ]);
+    // start on the first piece of equipment rather than taking off
+    if (stacks.length > 0) this.menu.moveCursor(1);
+    this.updateComparison();
+  }
+
+  /** shows the traits of the highlighted member, or what would change */
+  private updateComparison(): void {
+    const cursor = this.menu.getCursor();
+    if (this.state === "member") {
+      const member = PM.getMembers()[cursor];
+      this.comparison.update(member?.getName() ?? "", member?.getTraits());
+      return;
+    }
+    const member = this.member;
+    if (member === undefined) return;
+    if (this.state === "slot") {
+      this.comparison.update(member.getName(), member.getTraits());
+      return;
+    }
+    const item = this.listed[cursor];
+    const slot = EQUIPMENT_SLOTS[this.slot];
+    const notes: string[] = [];
+    const granted = (item?.equipment?.actions ?? []).map(
+      id => getAction(id).name
+    );
+    if (granted.length > 0) notes.push(`Grants ${granted.join(", ")}`);
+    const affinities = describeAffinities(item?.equipment?.affinities ?? {});
+    if (affinities !== "") notes.push(affinities);
+    this.comparison.update(
+      `${member.getName()}: ${item?.name ?? "nothing"}`,
+      member.getTraits(),
+      member.getTraitsWith(slot, item),
+      notes
+    );
+  }
+
+  /**
+   * handles the navigation directional
+   * @param dir which way the player pushed
+   */
+  private navigate(dir: "up" | "right" | "down" | "left"): void {
+    if (dir === "up") this.menu.moveCursor(-1);
+    if (dir === "down") this.menu.moveCursor(1);
+    this.updateComparison();
+  }
+
+  /** handles the enter button */
+  private confirm(): void {
+    const selected = this.menu.getSelected();
+    if (selected === undefined || !selected.enabled) return;
+    const cursor = this.menu.getCursor();
+    switch (this.state) {
+      case "member":
+        this.member = PM.getMembers()[cursor];
+        this.showSlots();
+        return;
+      case "slot":
+        this.slot = cursor;
+        this.showItems();
+        return;
+      case "item": {
+        const member = this.member;
+        if (member === undefined) return;
+        const item = this.listed[cursor];
+        if (item === undefined) {
+          INV.unequip(member, EQUIPMENT_SLOTS[this.slot]);
+        } else {
+          INV.equip(item.id, member);
+        }
+        this.showSlots(this.slot);
+        return;
+      }
+    }
+  }
+
+  /** handles the cancel button, going back one level or closing the screen */
+  private back(): void {
+    switch (this.state) {
+      case "item":
+        this.showSlots(this.slot);
+        return;
+      case "slot": {
+        const member = this.member;
+        this.showMembers(
+          member !== undefined ? PM.getMembers().indexOf(member) : 0
+        );
+        return;
+      }
+      case "member":
+        this.close();
+        return;
+    }
+  }
+
+  /** closes the screen and gives back the controls */
+  public close(): void {
+    const resolve = this.resolve;
+    if (resolve === undefined) return;
+    UM.remove(this.menu);
+    UM.remove(this.comparison);
+    IM.restore();
+    this.resolve = undefined;
+    resolve();
+  }
+}
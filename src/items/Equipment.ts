@@ -0,0 +1,63 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { CombatantTraits } from "../battle/Combatant";
+import { Affinities } from "../battle/Element";
+
+/** where a piece of equipment is worn. Each party member has one of each */
+export type EquipmentSlot = "weapon" | "armour" | "accessory";
+
+/** every slot, in the order they're listed in menus */
+export const EQUIPMENT_SLOTS: EquipmentSlot[] = [
+  "weapon",
+  "armour",
+  "accessory"
+];
+
+/** how a piece of equipment changes whoever wears it */
+export type EquipmentStats = {
+  slot: EquipmentSlot;
+  /** added to the wearer's traits */
+  modifiers: { [trait in keyof CombatantTraits]?: number };
+  /** actions the wearer can use while wearing it, from actions.ts */
+  actions?: string[];
+  /** replace the wearer's own affinities for these elements */
+  affinities?: Affinities;
+};
+
+/** get the displayed name of an equipment slot */
+export const slotName = (slot: EquipmentSlot): string =>
+  slot.charAt(0).toUpperCase() + slot.slice(1);
+
+/**
+ * adds equipment modifiers to a set of traits
+ * @param traits the traits to start from, which aren't changed
+ * @param modifiers the modifiers to add
+ * @return the modified traits
+ */
+export const applyModifiers = (
+  traits: CombatantTraits,
+  modifiers: EquipmentStats["modifiers"]
+): CombatantTraits => {
+  const modified = { ...traits };
+  for (const key of Object.keys(modifiers) as (keyof CombatantTraits)[]) {
+    modified[key] = Math.max(modified[key] + (modifiers[key] ?? 0), 0);
+  }
+  return modified;
+};
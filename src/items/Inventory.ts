@@ -0,0 +1,107 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { BattleAction, getAction } from "../battle/BattleAction";
+import {
+  DEFAULT_STACK_LIMIT,
+  getItemDefinition,
+  ItemCategory,
+  ItemStack
+} from "./Item";
+
+/**
+ * A collection of items, each kept in one stack that can't grow past the
+ * item's stack limit. Stacks stay in the order their items were first added
+ */
+export class Inventory {
+  /** how many of each item there are, by identifier */
+  private readonly counts: Map<string, number>;
+
+  public constructor() {
+    this.counts = new Map<string, number>();
+  }
+
+  /**
+   * get how many of an item there are
+   * @param id identifier of the item
+   */
+  public count(id: string): number {
+    return this.counts.get(id) ?? 0;
+  }
+
+  /**
+   * get how many more of an item fit before its stack is full
+   * @param id identifier of the item
+   */
+  public getRoom(id: string): number {
+    const limit = getItemDefinition(id).stackLimit ?? DEFAULT_STACK_LIMIT;
+    return Math.max(limit - this.count(id), 0);
+  }
+
+  /**
+   * adds some of an item, as many as fit
+   * @param id identifier of the item
+   * @param count how many to add
+   * @return how many were actually added
+   */
+  public add(id: string, count = 1): number {
+    const added = Math.min(count, this.getRoom(id));
+    if (added > 0) this.counts.set(id, this.count(id) + added);
+    return added;
+  }
+
+  /**
+   * takes away some of an item
+   * @param id identifier of the item
+   * @param count how many to take away
+   * @return false if there weren't enough, in which case none are taken
+   */
+  public remove(id: string, count = 1): boolean {
+    const have = this.count(id);
+    if (have < count) return false;
+    if (have === count) this.counts.delete(id);
+    else this.counts.set(id, have - count);
+    return true;
+  }
+
+  /**
+   * get every stack of items
+   * @param category only get stacks of items in this category
+   */
+  public getStacks(category?: ItemCategory): ItemStack[] {
+    const stacks: ItemStack[] = [];
+    this.counts.forEach((count, id) => {
+      const item = getItemDefinition(id);
+      if (category === undefined || item.category === category) {
+        stacks.push({ item: item, count: count });
+      }
+    });
+    return stacks;
+  }
+
+  /** get the actions of every item that can be used in battle */
+  public getBattleActions(): BattleAction[] {
+    const actions: BattleAction[] = [];
+    this.counts.forEach((_, id) => {
+      const action = getItemDefinition(id).action;
+      if (action !== undefined) actions.push(getAction(action));
+    });
+    return actions;
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Box } from "../Box";
+import { CANV_SIZE } from "../DisplayManager";
+import { IM } from "../InputManager";
+import { INV } from "../InventoryManager";
+import { PM } from "../PartyManager";
+import { UM } from "../UIManager";
+import { Vector } from "../Vector";
+import { getAction } from "../battle/BattleAction";
+import { PartyMember } from "../party/PartyMember";
+import { MenuOption, MenuUIElement } from "../ui/MenuUIElement";
+import { categoryName, ITEM_CATEGORIES, ItemStack } from "./Item";
+
+/**
+ * The screen the player uses to look through the party's items outside of
+ * battle. Left and right switch between categories, and choosing an item that
+ * can be used outside of battle opens a list of party members to use it on
+ */
+export class InventoryScreen {
+  /** the menu panel */
+  private readonly menu: MenuUIElement;
+  /** which part of the screen the player is in */
+  private state: "items" | "target";
+  /** index of the category being shown, in ITEM_CATEGORIES */
+  private category: number;
+  /** stacks shown in the item list */
+  private listed: ItemStack[];
+  /** the item waiting for a target */
+  private pending: ItemStack | undefined;
+  /** where the item cursor was before choosing a target */
+  private itemCursor: number;
+  /** resolves the promise returned by open() */
+  private resolve: (() => void) | undefined;
+
+  public constructor() {
+    this.menu = new MenuUIElement(
+      "inventory-screen",
+      new Box(new Vector(CANV_SIZE / 2 - 300, CANV_SIZE * 0.1), 600, 660),
+      "",
+      []
+    );
+    this.state = "items";
+    this.category = 0;
+    this.listed = [];
+    this.pending = undefined;
+    this.itemCursor = 0;
+    this.resolve = undefined;
+  }
+
+  /**
+   * shows the screen and takes over the controls until the player closes it
+   * @return a promise that resolves once the screen is closed
+   */
+  public open(): Promise<void> {
+    return new Promise<void>(resolve => {
+      this.resolve = resolve;
+      IM.save();
+      IM.enterMenuMode();
+      IM.setDirectionalFunction("navigation", this.navigate.bind(this));
+      IM.setOnPressed("enter", this.confirm.bind(this));
+      IM.setOnPressed("cancel", this.back.bind(this));
+      this.showItems();
+      UM.push(this.menu);
+    });
+  }
+
+  /** returns true while the screen is open */
+  public isOpen(): boolean {
+    return this.resolve !== undefined;
+  }
+
+  /**
+   * lists the items in the current category
+   * @param cursor which line to highlight
+   */
+  private showItems(cursor = 0): void {
+    this.state = "items";
+    this.pending = undefined;
+    const category = ITEM_CATEGORIES[this.category];
+    this.listed = INV.getInventory().getStacks(category);
+    const options: MenuOption[] = this.listed.map(stack => ({
+      label: `${stack.item.name} ×${stack.count}`,
+      enabled: PM.getMembers().some(m => INV.canUseOn(stack.item.id, m)),
+      description: stack.item.description
+    }));
+    if (options.length === 0)
+      options.push({ label: "Nothing", enabled: false });
+    this.menu.setOptions(
+      `◀ ${categoryName(category)} ▶   ${INV.getGold()} G`,
+      options
+    );
+    this.menu.moveCursor(Math.min(cursor, options.length - 1));
+  }
+
+  /**
+   * lists who the pending item can be used on. Items that affect every ally
+   * are used on the whole active party at once
+   * @param cursor which line to highlight
+   */
+  private showTargets(cursor = 0): void {
+    const stack = this.pending;
+    if (stack === undefined) return;
+    this.state = "target";
+    const title = `${stack.item.name} ×${stack.count}: use on`;
+    if (this.targetsWholeParty()) {
+      this.menu.setOptions(title, [
+        {
+          label: "Whole party",
+          enabled: PM.getActive().some(m => INV.canUseOn(stack.item.id, m))
+        }
+      ]);
+      return;
+    }
+    this.menu.setOptions(
+      title,
+      PM.getMembers().map(m => ({
+        label: InventoryScreen.describeMember(m),
+        enabled: INV.canUseOn(stack.item.id, m)
+      }))
+    );
+    this.menu.moveCursor(cursor);
+  }
+
+  /** returns true if the pending item affects every ally */
+  private targetsWholeParty(): boolean {
+    const action = this.pending?.item.action;
+    return action !== undefined && getAction(action).target === "all allies";
+  }
+
+  /** sums up a party member's condition in one line */
+  private static describeMember(member: PartyMember): string {
+    const traits = member.getTraits();
+    const condition = member.getCondition();
+    return (
+      `${member.getName()}  ${condition.hp}/${traits.maxHp} HP  ` +
+      `${condition.mp}/${traits.maxMp} MP`
+    );
+  }
+
+  /**
+   * handles the navigation directional
+   * @param dir which way the player pushed
+   */
+  private navigate(dir: "up" | "right" | "down" | "left"): void {
+    if (dir === "up") this.menu.moveCursor(-1);
+    else if (dir === "down") this.menu.moveCursor(1);
+    else if (this.state === "items") {
+      const n = ITEM_CATEGORIES.length;
+      this.category = (this.category + (dir === "left" ? n - 1 : 1)) % n;
+      this.showItems();
+    }
+  }
+
+  /** handles the enter button */
+  private confirm(): void {
+    const selected = this.menu.getSelected();
+    if (selected === undefined || !selected.enabled) return;
+    if (this.state === "items") {
+      this.itemCursor = this.menu.getCursor();
+      this.pending = this.listed[this.itemCursor];
+      this.showTargets();
+      return;
+    }
+    const stack = this.pending;
+    if (stack === undefined) return;
+    const cursor = this.menu.getCursor();
+    const targets = this.targetsWholeParty()
+      ? PM.getActive()
+      : [PM.getMembers()[cursor]];
+    INV.useOn(stack.item.id, targets);
+    // keep choosing targets until the item runs out
+    const count = INV.getInventory().count(stack.item.id);
+    if (count > 0) {
+      this.pending = { item: stack.item, count: count };
+      this.showTargets(cursor);
+    } else {
+      this.showItems(this.itemCursor);
+    }
+  }
+
+  /** handles the cancel button, going back one level or closing the screen */
+  private back(): void {
+    if (this.state === "target") this.showItems(this.itemCursor);
+    else this.close();
+  }
+
+  /** closes the screen and gives back the controls */
+  public close(): void {
+    const resolve = this.resolve;
+    if (resolve === undefined) return;
+    UM.remove(this.menu);
+    IM.restore();
+    this.resolve = undefined;
+    resolve();
+  }
+}
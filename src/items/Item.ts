@@ -0,0 +1,104 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { items } from "./items";
+import { EquipmentStats } from "./Equipment";
+
+/**
+ * what sort of thing an item is. Consumables are used up, key items are needed
+ * for the story and can't be used up, equipment is worn by party members, and
+ * materials are only worth collecting
+ */
+export type ItemCategory = "consumable" | "key" | "equipment" | "material";
+
+/** the categories in the order they're shown in menus */
+export const ITEM_CATEGORIES: ItemCategory[] = [
+  "consumable",
+  "equipment",
+  "material",
+  "key"
+];
+
+/** how many of an item fit in one stack unless its definition says otherwise */
+export const DEFAULT_STACK_LIMIT = 99;
+
+/**
+ * A data definition of something the party can carry. Items are listed in
+ * items.ts
+ */
+export type ItemDefinition = {
+  /** unique string identifier */
+  id: string;
+  /** displayed name of the item */
+  name: string;
+  /** short explanation shown in menus */
+  description: string;
+  category: ItemCategory;
+  /** most of this item the party can carry, defaults to DEFAULT_STACK_LIMIT */
+  stackLimit?: number;
+  /**
+   * identifier of the action from actions.ts that using this item performs.
+   * Items with an action can be used in battle, and the action's cost should
+   * use up one of the item
+   */
+  action?: string;
+  /**
+   * if true the item can also be used outside of battle. Only heal and
+   * restore mp effects do anything there
+   */
+  usableOutside?: boolean;
+  /** how the item changes whoever wears it. Only for equipment */
+  equipment?: EquipmentStats;
+};
+
+/** a number of the same item */
+export type ItemStack = {
+  item: ItemDefinition;
+  count: number;
+};
+
+/**
+ * get an item definition by its identifier
+ * @param id the identifier of the item in items.ts
+ */
+export const getItemDefinition = (id: string): ItemDefinition => {
+  const item = items[id];
+  if (item === undefined) {
+    throw new Error("Item: no item with id " + id);
+  }
+  return item;
+};
+
+/**
+ * get the displayed name of an item category
+ * @param category the category to name
+ * @param plural whether to name more than one
+ */
+export const categoryName = (category: ItemCategory, plural = true): string => {
+  switch (category) {
+    case "consumable":
+      return plural ? "Consumables" : "Consumable";
+    case "key":
+      return plural ? "Key Items" : "Key Item";
+    case "equipment":
+      return "Equipment";
+    case "material":
+      return plural ? "Materials" : "Material";
+  }
+};
@@ -0,0 +1,111 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Random } from "../Random";
+
+/** how often something drops. Rarer drops are worth hoping for */
+export type Rarity = "common" | "uncommon" | "rare" | "very rare";
+
+/** chance from 0 to 1 that a drop of each rarity happens */
+export const RARITY_CHANCES: { [rarity in Rarity]: number } = {
+  common: 0.6,
+  uncommon: 0.25,
+  rare: 0.08,
+  "very rare": 0.02
+};
+
+/** an item that may be dropped or stolen */
+export type Drop = {
+  /** identifier of the item, from items.ts */
+  item: string;
+  rarity: Rarity;
+  /** how many drop at once, defaults to 1 */
+  count?: number;
+};
+
+/** what an enemy may leave behind when defeated */
+export type DropTable = {
+  /** gold is a whole number in this range */
+  gold: { min: number; max: number };
+  /** each drop is rolled separately, so several can happen at once */
+  drops: Drop[];
+};
+
+/** a number of an item, by identifier */
+export type ItemCount = {
+  item: string;
+  count: number;
+};
+
+/** a table that drops nothing */
+export const EMPTY_DROP_TABLE: DropTable = {
+  gold: { min: 0, max: 0 },
+  drops: []
+};
+
+/**
+ * rolls each drop in a table
+ * @param table the table to roll
+ * @param random the generator to roll with, usually the "loot" stream
+ * @return the items dropped
+ */
+export const rollDrops = (table: DropTable, random: Random): ItemCount[] =>
+  table.drops
+    .filter(drop => random.next() < RARITY_CHANCES[drop.rarity])
+    .map(drop => ({ item: drop.item, count: drop.count ?? 1 }));
+
+/**
+ * rolls how much gold a table gives
+ * @param table the table to roll
+ * @param random the generator to roll with, usually the "loot" stream
+ */
+export const rollGold = (table: DropTable, random: Random): number =>
+  random.int(table.gold.min, table.gold.max);
+
+/**
+ * picks one of a set of drops, with common ones more likely than rare ones
+ * @param drops the drops to pick from, which must not be empty
+ * @param random the generator to roll with, usually the "loot" stream
+ */
+export const pickDrop = (drops: Drop[], random: Random): Drop => {
+  const total = drops.reduce((sum, d) => sum + RARITY_CHANCES[d.rarity], 0);
+  let roll = random.next() * total;
+  for (const drop of drops) {
+    roll -= RARITY_CHANCES[drop.rarity];
+    if (roll < 0) return drop;
+  }
+  return drops[drops.length - 1];
+};
+
+/**
+ * combines lists of items, adding up the counts of the same item
+ * @param lists the lists to combine
+ * @return one entry per item, in the order each was first seen
+ */
+export const mergeItems = (...lists: ItemCount[][]): ItemCount[] => {
+  const merged: ItemCount[] = [];
+  for (const list of lists) {
+    for (const entry of list) {
+      const existing = merged.find(m => m.item === entry.item);
+      if (existing !== undefined) existing.count += entry.count;
+      else merged.push({ ...entry });
+    }
+  }
+  return merged;
+};
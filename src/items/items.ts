@@ -0,0 +1,131 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ItemDefinition } from "./Item";
+
+/**
+ * List all items here, indexed by id
+ */
+export const items: { [id: string]: ItemDefinition } = {
+  potion: {
+    id: "potion",
+    name: "Potion",
+    description: "Restores 25 health to one ally",
+    category: "consumable",
+    action: "potion",
+    usableOutside: true
+  },
+  ether: {
+    id: "ether",
+    name: "Ether",
+    description: "Restores 10 mp to one ally",
+    category: "consumable",
+    action: "ether",
+    usableOutside: true
+  },
+  antidote: {
+    id: "antidote",
+    name: "Antidote",
+    description: "Cures poison in battle",
+    category: "consumable",
+    action: "antidote"
+  },
+  "bronze-sword": {
+    id: "bronze-sword",
+    name: "Bronze Sword",
+    description: "A plain, dependable blade",
+    category: "equipment",
+    stackLimit: 9,
+    equipment: { slot: "weapon", modifiers: { attack: 4 } }
+  },
+  "oak-staff": {
+    id: "oak-staff",
+    name: "Oak Staff",
+    description: "Warm to the touch. Lets the wielder cast Flame",
+    category: "equipment",
+    stackLimit: 9,
+    equipment: {
+      slot: "weapon",
+      modifiers: { attack: 1, magic: 4 },
+      actions: ["flame"]
+    }
+  },
+  "leather-armour": {
+    id: "leather-armour",
+    name: "Leather Armour",
+    description: "Stiff hide that turns aside glancing blows",
+    category: "equipment",
+    stackLimit: 9,
+    equipment: { slot: "armour", modifiers: { defense: 3, maxHp: 10 } }
+  },
+  "wizard-robe": {
+    id: "wizard-robe",
+    name: "Wizard Robe",
+    description: "Embroidered with runes that ward off spells",
+    category: "equipment",
+    stackLimit: 9,
+    equipment: { slot: "armour", modifiers: { resistance: 3, maxMp: 8 } }
+  },
+  "ember-ring": {
+    id: "ember-ring",
+    name: "Ember Ring",
+    description: "Resists fire, but leaves the wearer weak to ice",
+    category: "equipment",
+    stackLimit: 9,
+    equipment: {
+      slot: "accessory",
+      modifiers: {},
+      affinities: { fire: "resist", ice: "weak" }
+    }
+  },
+  "swift-boots": {
+    id: "swift-boots",
+    name: "Swift Boots",
+    description: "Light on the feet, and a little harder to hit",
+    category: "equipment",
+    stackLimit: 9,
+    equipment: { slot: "accessory", modifiers: { speed: 2, evasion: 0.05 } }
+  },
+  "slime-gel": {
+    id: "slime-gel",
+    name: "Slime Gel",
+    description: "Sticky, and faintly warm",
+    category: "material"
+  },
+  "bat-wing": {
+    id: "bat-wing",
+    name: "Bat Wing",
+    description: "Thin as paper",
+    category: "material"
+  },
+  "troll-tusk": {
+    id: "troll-tusk",
+    name: "Troll Tusk",
+    description: "Heavy and chipped from use",
+    category: "material",
+    stackLimit: 20
+  },
+  "rusty-key": {
+    id: "rusty-key",
+    name: "Rusty Key",
+    description: "It must open something",
+    category: "key",
+    stackLimit: 1
+  }
+};
@@ -16,21 +16,28 @@
  * You should have received a copy of the GNU General Public License along with
  * Artimancer. If not, see <https://www.gnu.org/licenses/>.
  */
-import { Combatant } from "./Combatant";
-import { Vector } from "../Vector";
 
-/** Plain Combatant for test purposes */
-export class TestCombatant extends Combatant {
-  public constructor() {
-    super();
-  }
+import { Ally } from "../battle/Ally";
+import { Vector } from "../Vector";
+import { PartyMember } from "./PartyMember";
 
-  public isEnemy(): boolean {
-    return false;
-  }
+/** The combatant a party member fights as for one battle */
+export class PartyCombatant extends Ally {
+  /** the party member this combatant fights as */
+  public readonly member: PartyMember;
 
-  public async takeTurn(): Promise<void> {
-    return Promise.resolve(undefined);
+  /**
+   * @param member the party member to fight as
+   */
+  public constructor(member: PartyMember) {
+    super();
+    this.member = member;
+    this.setName(member.getName());
+    this.setKind(member.definition.id);
+    const condition = member.getCondition();
+    this.traits = { ...member.getTraits(), ...condition };
+    this.actionIds = member.getActionIds();
+    this.affinities = member.getAffinities();
   }
 
   public draw(
@@ -39,7 +46,7 @@ export class TestCombatant extends Combatant {
     maxHeight: number
   ): void {
     ctx.save();
-    ctx.fillStyle = "blue";
+    ctx.fillStyle = this.member.definition.color;
     ctx.fillRect(center.x - 40, center.y - maxHeight / 2, 80, maxHeight);
     ctx.restore();
   }
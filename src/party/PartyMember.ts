@@ -0,0 +1,398 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { characters } from "./characters";
+import { PartyCombatant } from "./PartyCombatant";
+import {
+  Combatant,
+  CombatantTraits,
+  DEFAULT_TRAITS
+} from "../battle/Combatant";
+import { BattleAction, getAction } from "../battle/BattleAction";
+import { Affinities } from "../battle/Element";
+import { getItemDefinition, ItemDefinition } from "../items/Item";
+import {
+  applyModifiers,
+  EQUIPMENT_SLOTS,
+  EquipmentSlot
+} from "../items/Equipment";
+
+/**
+ * how one trait grows with level. At level L the trait is
+ * base + perLevel * (L - 1) ^ exponent
+ */
+export type GrowthCurve = {
+  base: number;
+  perLevel: number;
+  /** above 1 grows faster at high levels, below 1 slower. Defaults to 1 */
+  exponent?: number;
+};
+
+/**
+ * A data definition of a character who can join the party. Characters are
+ * listed in characters.ts
+ */
+export type CharacterDefinition = {
+  /** unique string identifier */
+  id: string;
+  /** displayed name of the character */
+  name: string;
+  /**
+   * how each trait grows with level. Traits without a curve keep the
+   * Combatant defaults. Hp and mp are given by maxHp and maxMp
+   */
+  growth: { [trait in keyof CombatantTraits]?: GrowthCurve };
+  /**
+   * experience needed to go from level L to L + 1 is
+   * round(base * L ^ exponent)
+   */
+  xpCurve: { base: number; exponent: number };
+  /** actions known from the start, from actions.ts */
+  actions: string[];
+  /** actions learned on reaching a level, from actions.ts */
+  learnset: { level: number; action: string }[];
+  affinities?: Affinities;
+  /** identifiers of the items from items.ts the character joins wearing */
+  equipment?: { [slot in EquipmentSlot]?: string };
+  /** color of the rectangle drawn when the character has no sprites */
+  color: string;
+};
+
+/** what a party member gained from levelling up after a battle */
+export type LevelUpSummary = {
+  member: PartyMember;
+  fromLevel: number;
+  toLevel: number;
+  /** how much each trait went up */
+  gains: { [trait in keyof CombatantTraits]?: number };
+  /** actions learned along the way */
+  learned: BattleAction[];
+};
+
+/** levels can't go past this */
+export const MAX_LEVEL = 99;
+
+/** traits that are chances from 0 to 1, which aren't rounded */
+const CHANCE_TRAITS: (keyof CombatantTraits)[] = [
+  "accuracy",
+  "evasion",
+  "critChance"
+];
+
+/**
+ * get a character definition by its identifier
+ * @param id the identifier of the character in characters.ts
+ */
+export const getCharacterDefinition = (id: string): CharacterDefinition => {
+  const def = characters[id];
+  if (def === undefined) {
+    throw new Error("PartyMember: no character with id " + id);
+  }
+  return def;
+};
+
+/**
+ * A character in the player's party. Unlike a Combatant, which only lasts for
+ * one battle, a PartyMember keeps its level, experience, and remaining hp and
+ * mp between battles, and creates a fresh Combatant for each one
+ */
+export class PartyMember {
+  /** the data this character follows */
+  public readonly definition: CharacterDefinition;
+  /** current level, starting at 1 */
+  private level: number;
+  /** experience earned toward the next level */
+  private xp: number;
+  /** hp left, carried between battles */
+  private hp: number;
+  /** mp left, carried between battles */
+  private mp: number;
+  /** what is worn in each slot */
+  private equipped: { [slot in EquipmentSlot]?: ItemDefinition };
+
+  /**
+   * @param definition the character to create
+   * @param level starting level
+   */
+  public constructor(definition: CharacterDefinition, level = 1) {
+    this.definition = definition;
+    this.level = Math.min(Math.max(level, 1), MAX_LEVEL);
+    this.xp = 0;
+    this.equipped = {};
+    const start = definition.equipment ?? {};
+    for (const slot of EQUIPMENT_SLOTS) {
+      const id = start[slot];
+      if (id !== undefined) this.equipped[slot] = getItemDefinition(id);
+    }
+    const traits = this.getTraits();
+    this.hp = traits.maxHp;
+    this.mp = traits.maxMp;
+  }
+
+  /** get the displayed name of this party member */
+  public getName(): string {
+    return this.definition.name;
+  }
+
+  /** get the current level */
+  public getLevel(): number {
+    return this.level;
+  }
+
+  /** get the experience earned toward the next level */
+  public getXp(): number {
+    return this.xp;
+  }
+
+  /** get the experience needed to reach the next level from this one */
+  public getXpToNextLevel(): number {
+    const curve = this.definition.xpCurve;
+    return Math.round(curve.base * this.level ** curve.exponent);
+  }
+
+  /**
+   * get the traits this party member has at a level with what they're
+   * wearing, with hp and mp full
+   * @param level the level to check, defaults to the current level
+   */
+  public getTraits(level = this.level): CombatantTraits {
+    return this.getTraitsWearing(this.equipped, level);
+  }
+
+  /**
+   * get the traits this party member would have if one slot held something
+   * else, for comparing equipment
+   * @param slot the slot to change
+   * @param item what to wear there, or undefined for nothing
+   */
+  public getTraitsWith(
+    slot: EquipmentSlot,
+    item: ItemDefinition | undefined
+  ): CombatantTraits {
+    return this.getTraitsWearing({ ...this.equipped, [slot]: item });
+  }
+
+  /**
+   * get the traits this party member has at a level while wearing some
+   * equipment, with hp and mp full
+   * @param equipped what is worn in each slot
+   * @param level the level to check, defaults to the current level
+   */
+  private getTraitsWearing(
+    equipped: { [slot in EquipmentSlot]?: ItemDefinition },
+    level = this.level
+  ): CombatantTraits {
+    let traits = this.getBaseTraits(level);
+    for (const slot of EQUIPMENT_SLOTS) {
+      const stats = equipped[slot]?.equipment;
+      if (stats !== undefined) traits = applyModifiers(traits, stats.modifiers);
+    }
+    traits.hp = traits.maxHp;
+    traits.mp = traits.maxMp;
+    return traits;
+  }
+
+  /**
+   * get the traits this party member has at a level without equipment
+   * @param level the level to check
+   */
+  private getBaseTraits(level: number): CombatantTraits {
+    const traits = { ...DEFAULT_TRAITS };
+    const growth = this.definition.growth;
+    for (const key of Object.keys(growth) as (keyof CombatantTraits)[]) {
+      const curve = growth[key];
+      if (curve === undefined) continue;
+      const value =
+        curve.base + curve.perLevel * (level - 1) ** (curve.exponent ?? 1);
+      // chances are fractions, everything else is a whole number
+      traits[key] = CHANCE_TRAITS.indexOf(key) > -1 ? value : Math.round(value);
+    }
+    return traits;
+  }
+
+  /** get the hp and mp this party member has left */
+  public getCondition(): { hp: number; mp: number } {
+    return { hp: this.hp, mp: this.mp };
+  }
+
+  /**
+   * sets how much hp and mp this party member has left, up to their max
+   * @param hp hp left
+   * @param mp mp left
+   */
+  public setCondition(hp: number, mp: number): void {
+    const traits = this.getTraits();
+    this.hp = Math.min(Math.max(hp, 0), traits.maxHp);
+    this.mp = Math.min(Math.max(mp, 0), traits.maxMp);
+  }
+
+  /** restores all hp and mp */
+  public restore(): void {
+    const traits = this.getTraits();
+    this.hp = traits.maxHp;
+    this.mp = traits.maxMp;
+  }
+
+  /**
+   * get the identifiers of every action known at the current level, followed
+   * by the actions granted by equipment
+   */
+  public getActionIds(): string[] {
+    const learned = this.definition.learnset
+      .filter(l => l.level <= this.level)
+      .map(l => l.action);
+    const granted: string[] = [];
+    for (const slot of EQUIPMENT_SLOTS) {
+      granted.push(...(this.equipped[slot]?.equipment?.actions ?? []));
+    }
+    return [...this.definition.actions, ...learned, ...granted].filter(
+      (id, i, all) => all.indexOf(id) === i
+    );
+  }
+
+  /**
+   * get how this party member reacts to each element. Equipment overrides
+   * the character's own affinities
+   */
+  public getAffinities(): Affinities {
+    let affinities = { ...this.definition.affinities };
+    for (const slot of EQUIPMENT_SLOTS) {
+      const granted = this.equipped[slot]?.equipment?.affinities;
+      if (granted !== undefined) affinities = { ...affinities, ...granted };
+    }
+    return affinities;
+  }
+
+  /**
+   * get what is worn in a slot
+   * @param slot the slot to check
+   */
+  public getEquipped(slot: EquipmentSlot): ItemDefinition | undefined {
+    return this.equipped[slot];
+  }
+
+  /**
+   * puts on a piece of equipment in its slot. This doesn't take it from the
+   * inventory, so use INV.equip() for that
+   * @param item the equipment to put on
+   * @return what was worn in the slot before
+   */
+  public equip(item: ItemDefinition): ItemDefinition | undefined {
+    const stats = item.equipment;
+    if (stats === undefined) {
+      throw new Error("PartyMember: " + item.id + " can't be equipped");
+    }
+    const previous = this.equipped[stats.slot];
+    this.equipped[stats.slot] = item;
+    this.setCondition(this.hp, this.mp);
+    return previous;
+  }
+
+  /**
+   * takes off whatever is worn in a slot. Hp and mp above the new max are
+   * lost
+   * @param slot the slot to empty
+   * @return what was worn in the slot
+   */
+  public unequip(slot: EquipmentSlot): ItemDefinition | undefined {
+    const previous = this.equipped[slot];
+    delete this.equipped[slot];
+    this.setCondition(this.hp, this.mp);
+    return previous;
+  }
+
+  /** creates a combatant to fight as this party member in one battle */
+  public createCombatant(): Combatant {
+    return new PartyCombatant(this);
+  }
+
+  /**
+   * carries a combatant's remaining hp and mp back after a battle. Party
+   * members who fell get back up with 1 hp
+   * @param combatant the combatant this party member fought as
+   */
+  public updateFromCombatant(combatant: Combatant): void {
+    this.setCondition(Math.max(combatant.traits.hp, 1), combatant.traits.mp);
+  }
+
+  /**
+   * adds experience, levelling up as many times as it allows
+   * @param amount experience to add
+   * @return what was gained, or undefined if the level didn't change
+   */
+  public gainXp(amount: number): LevelUpSummary | undefined {
+    const fromLevel = this.level;
+    const before = this.getTraits();
+    this.xp += amount;
+    while (this.level < MAX_LEVEL && this.xp >= this.getXpToNextLevel()) {
+      this.xp -= this.getXpToNextLevel();
+      this.level++;
+    }
+    if (this.level === MAX_LEVEL) this.xp = 0;
+    if (this.level === fromLevel) return undefined;
+
+    // levelling up raises current hp and mp by as much as the max went up
+    const after = this.getTraits();
+    this.setCondition(
+      this.hp + after.maxHp - before.maxHp,
+      this.mp + after.maxMp - before.maxMp
+    );
+    const gains: LevelUpSummary["gains"] = {};
+    for (const key of Object.keys(after) as (keyof CombatantTraits)[]) {
+      if (key === "hp" || key === "mp") continue;
+      if (after[key] !== before[key]) gains[key] = after[key] - before[key];
+    }
+    return {
+      member: this,
+      fromLevel: fromLevel,
+      toLevel: this.level,
+      gains: gains,
+      learned: this.definition.learnset
+        .filter(l => l.level > fromLevel && l.level <= this.level)
+        .map(l => getAction(l.action))
+    };
+  }
+}
+
+/**
+ * after a battle, carries each party member's hp and mp back from the
+ * combatant they fought as, and splits the experience earned between the
+ * members still standing
+ * @param combatants the player's side of the battle
+ * @param xp total experience earned
+ * @return what each member gained from levelling up
+ */
+export const awardExperience = (
+  combatants: Combatant[],
+  xp: number
+): LevelUpSummary[] => {
+  const fighters = combatants.filter(
+    (c): c is PartyCombatant => c instanceof PartyCombatant
+  );
+  const standing = fighters.filter(c => c.isAlive());
+  const share = Math.ceil(xp / Math.max(standing.length, 1));
+  const summaries: LevelUpSummary[] = [];
+  for (const c of fighters) {
+    c.member.updateFromCombatant(c);
+    if (!c.isAlive() || share <= 0) continue;
+    const summary = c.member.gainXp(share);
+    if (summary !== undefined) summaries.push(summary);
+  }
+  return summaries;
+};
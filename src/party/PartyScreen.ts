@@ -0,0 +1,174 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { IM } from "../InputManager";
+import { MAX_ACTIVE, PM } from "../PartyManager";
+import { UM } from "../UIManager";
+import { formations } from "../battle/formations";
+import { PartySlot, PartyUIElement } from "../ui/PartyUIElement";
+
+/**
+ * The screen the player uses to arrange the party. Picking up a member and
+ * putting them down on another swaps the two, or moves them into an empty
+ * slot, which is how members go between active and reserve. The formation
+ * can be switched between presets, and each active position's row changed
+ */
+export class PartyScreen {
+  /** the panel showing the party */
+  private readonly panel: PartyUIElement;
+  /** index of the highlighted slot */
+  private cursor: number;
+  /** index of the slot picked up to be swapped, if there is one */
+  private held: number | undefined;
+  /** resolves the promise returned by open() */
+  private resolve: (() => void) | undefined;
+
+  public constructor() {
+    this.panel = new PartyUIElement();
+    this.cursor = 0;
+    this.held = undefined;
+    this.resolve = undefined;
+  }
+
+  /**
+   * shows the screen and takes over the controls until the player closes it
+   * @return a promise that resolves once the screen is closed
+   */
+  public open(): Promise<void> {
+    return new Promise<void>(resolve => {
+      this.resolve = resolve;
+      IM.save();
+      IM.enterMenuMode();
+      IM.registerButton("row", "r", 2);
+      IM.setDirectionalFunction("navigation", this.navigate.bind(this));
+      IM.setOnPressed("enter", this.confirm.bind(this));
+      IM.setOnPressed("cancel", this.back.bind(this));
+      IM.setOnPressed("row", this.toggleRow.bind(this));
+      this.refresh();
+      UM.push(this.panel);
+    });
+  }
+
+  /** returns true while the screen is open */
+  public isOpen(): boolean {
+    return this.resolve !== undefined;
+  }
+
+  /**
+   * get every line of the screen. Active slots are padded with empty ones up
+   * to MAX_ACTIVE while anyone is in reserve, and the reserve always ends with
+   * an empty slot to put active members in
+   */
+  private getSlots(): PartySlot[] {
+    const rows = PM.getFormation().rows;
+    const active = PM.getActive();
+    const reserve = PM.getReserve();
+    const slots: PartySlot[] = active.map((m, i) => ({
+      member: m,
+      active: true,
+      row: rows[i] ?? "front"
+    }));
+    if (reserve.length > 0) {
+      for (let i = active.length; i < MAX_ACTIVE; ++i) {
+        slots.push({ member: undefined, active: true });
+      }
+    }
+    for (const m of reserve) slots.push({ member: m, active: false });
+    slots.push({ member: undefined, active: false });
+    return slots;
+  }
+
+  /** updates the panel to match the party */
+  private refresh(): void {
+    const slots = this.getSlots();
+    this.cursor = Math.min(this.cursor, slots.length - 1);
+    this.panel.update(slots, this.cursor, this.held, PM.getFormation().name);
+  }
+
+  /**
+   * handles the navigation directional. Up and down move the cursor, and left
+   * and right switch between preset formations
+   * @param dir which way the player pushed
+   */
+  private navigate(dir: "up" | "right" | "down" | "left"): void {
+    const n = this.getSlots().length;
+    if (dir === "up") this.cursor = (this.cursor + n - 1) % n;
+    else if (dir === "down") this.cursor = (this.cursor + 1) % n;
+    else {
+      const ids = Object.keys(formations);
+      const i = ids.indexOf(PM.getFormation().id);
+      const step = dir === "left" ? ids.length - 1 : 1;
+      PM.setFormation(ids[(i + step) % ids.length]);
+    }
+    this.refresh();
+  }
+
+  /** handles the enter button, picking up or putting down a member */
+  private confirm(): void {
+    const slots = this.getSlots();
+    const target = slots[this.cursor];
+    if (this.held === undefined) {
+      if (target.member !== undefined) this.held = this.cursor;
+      this.refresh();
+      return;
+    }
+    const held = slots[this.held].member;
+    this.held = undefined;
+    if (held !== undefined && held !== target.member) {
+      if (target.member !== undefined) {
+        PM.swap(held, target.member);
+      } else if (target.active) {
+        PM.activate(held);
+      } else {
+        PM.bench(held);
+      }
+    }
+    this.refresh();
+  }
+
+  /** handles the row button, moving the highlighted position's row */
+  private toggleRow(): void {
+    if (this.getSlots()[this.cursor].row === undefined) return;
+    PM.toggleRow(this.cursor);
+    this.refresh();
+  }
+
+  /**
+   * handles the cancel button, putting down the held member or closing the
+   * screen
+   */
+  private back(): void {
+    if (this.held !== undefined) {
+      this.held = undefined;
+      this.refresh();
+    } else {
+      this.close();
+    }
+  }
+
+  /** closes the screen and gives back the controls */
+  public close(): void {
+    const resolve = this.resolve;
+    if (resolve === undefined) return;
+    UM.remove(this.panel);
+    IM.restore();
+    this.resolve = undefined;
+    resolve();
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { CharacterDefinition } from "./PartyMember";
+
+/** actions every character knows */
+const basics = ["attack", "defend", "change-row", "flee"];
+
+/**
+ * List all characters who can join the party here, indexed by id
+ */
+export const characters: { [id: string]: CharacterDefinition } = {
+  knight: {
+    id: "knight",
+    name: "Knight",
+    growth: {
+      speed: { base: 5, perLevel: 0.3 },
+      maxHp: { base: 70, perLevel: 9, exponent: 1.1 },
+      maxMp: { base: 10, perLevel: 2 },
+      attack: { base: 13, perLevel: 2 },
+      defense: { base: 12, perLevel: 2 },
+      magic: { base: 6, perLevel: 1 },
+      resistance: { base: 8, perLevel: 1 }
+    },
+    xpCurve: { base: 20, exponent: 1.5 },
+    actions: basics,
+    learnset: [
+      { level: 3, action: "cleave" },
+      { level: 5, action: "bash" },
+      { level: 8, action: "blood-pact" }
+    ],
+    equipment: { weapon: "bronze-sword", armour: "leather-armour" },
+    color: "#3d5a9e"
+  },
+  mage: {
+    id: "mage",
+    name: "Mage",
+    growth: {
+      speed: { base: 6, perLevel: 0.3 },
+      maxHp: { base: 45, perLevel: 5 },
+      maxMp: { base: 24, perLevel: 4, exponent: 1.1 },
+      attack: { base: 7, perLevel: 1 },
+      defense: { base: 7, perLevel: 1 },
+      magic: { base: 14, perLevel: 2 },
+      resistance: { base: 12, perLevel: 2 }
+    },
+    xpCurve: { base: 20, exponent: 1.5 },
+    actions: [...basics, "flame"],
+    learnset: [
+      { level: 2, action: "frost" },
+      { level: 5, action: "quake" },
+      { level: 7, action: "haste" }
+    ],
+    equipment: { armour: "wizard-robe" },
+    color: "#8e44ad"
+  },
+  rogue: {
+    id: "rogue",
+    name: "Rogue",
+    growth: {
+      speed: { base: 8, perLevel: 0.4 },
+      maxHp: { base: 50, perLevel: 6 },
+      maxMp: { base: 12, perLevel: 2 },
+      attack: { base: 11, perLevel: 1.5 },
+      defense: { base: 8, perLevel: 1 },
+      magic: { base: 7, perLevel: 1 },
+      resistance: { base: 9, perLevel: 1 },
+      evasion: { base: 0.12, perLevel: 0.005 },
+      critChance: { base: 0.1, perLevel: 0.005 }
+    },
+    xpCurve: { base: 18, exponent: 1.5 },
+    actions: [...basics, "steal"],
+    learnset: [
+      { level: 4, action: "venom" },
+      { level: 6, action: "cleave" }
+    ],
+    equipment: { accessory: "swift-boots" },
+    color: "#4a7a5a"
+  },
+  cleric: {
+    id: "cleric",
+    name: "Cleric",
+    growth: {
+      speed: { base: 5, perLevel: 0.25 },
+      maxHp: { base: 55, perLevel: 6 },
+      maxMp: { base: 20, perLevel: 3 },
+      attack: { base: 9, perLevel: 1 },
+      defense: { base: 9, perLevel: 1.5 },
+      magic: { base: 12, perLevel: 2 },
+      resistance: { base: 13, perLevel: 2 }
+    },
+    xpCurve: { base: 22, exponent: 1.5 },
+    actions: [...basics, "mend"],
+    learnset: [
+      { level: 4, action: "rally" },
+      { level: 6, action: "barrier" },
+      { level: 9, action: "haste" }
+    ],
+    affinities: { light: "resist", dark: "weak" },
+    color: "#e0c068"
+  }
+};
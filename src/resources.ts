@@ -30,7 +30,24 @@ export const resources = {
     { spriteLabel: "edit-menu-barrier", length: 1, slowdown: 0 },
     { spriteLabel: "edit-menu-export", length: 1, slowdown: 0 },
     { spriteLabel: "logo", length: 1, slowdown: 0 },
-    { spriteLabel: "default-platform", length: 1, slowdown: 0 }
+    { spriteLabel: "default-platform", length: 1, slowdown: 0 },
+    { spriteLabel: "effect-slash", length: 3, slowdown: 80 },
+    { spriteLabel: "effect-magic", length: 3, slowdown: 100 },
+    { spriteLabel: "arena-field-sky", length: 1, slowdown: 0 },
+    { spriteLabel: "arena-field-clouds", length: 1, slowdown: 0 },
+    { spriteLabel: "arena-field-hills", length: 1, slowdown: 0 },
+    { spriteLabel: "arena-cave-back", length: 1, slowdown: 0 },
+    { spriteLabel: "arena-cave-front", length: 1, slowdown: 0 },
+    { spriteLabel: "platform-grass", length: 1, slowdown: 0 },
+    { spriteLabel: "platform-stone", length: 1, slowdown: 0 },
+    { spriteLabel: "player-walk-down", length: 4, slowdown: 120 },
+    { spriteLabel: "player-idle-down", length: 1, slowdown: 0 },
+    { spriteLabel: "player-walk-up", length: 4, slowdown: 120 },
+    { spriteLabel: "player-idle-up", length: 1, slowdown: 0 },
+    { spriteLabel: "player-walk-left", length: 4, slowdown: 120 },
+    { spriteLabel: "player-idle-left", length: 1, slowdown: 0 },
+    { spriteLabel: "player-walk-right", length: 4, slowdown: 120 },
+    { spriteLabel: "player-idle-right", length: 1, slowdown: 0 }
   ],
   images: [
     {
@@ -38,6 +55,171 @@ export const resources = {
       spriteLabel: "default-platform",
       index: 0
     },
+    {
+      filename: "images/effect-slash-1.svg",
+      spriteLabel: "effect-slash",
+      index: 0
+    },
+    {
+      filename: "images/effect-slash-2.svg",
+      spriteLabel: "effect-slash",
+      index: 1
+    },
+    {
+      filename: "images/effect-slash-3.svg",
+      spriteLabel: "effect-slash",
+      index: 2
+    },
+    {
+      filename: "images/effect-magic-1.svg",
+      spriteLabel: "effect-magic",
+      index: 0
+    },
+    {
+      filename: "images/effect-magic-2.svg",
+      spriteLabel: "effect-magic",
+      index: 1
+    },
+    {
+      filename: "images/effect-magic-3.svg",
+      spriteLabel: "effect-magic",
+      index: 2
+    },
+    {
+      filename: "images/arena-field-sky.svg",
+      spriteLabel: "arena-field-sky",
+      index: 0
+    },
+    {
+      filename: "images/arena-field-clouds.svg",
+      spriteLabel: "arena-field-clouds",
+      index: 0
+    },
+    {
+      filename: "images/arena-field-hills.svg",
+      spriteLabel: "arena-field-hills",
+      index: 0
+    },
+    {
+      filename: "images/arena-cave-back.svg",
+      spriteLabel: "arena-cave-back",
+      index: 0
+    },
+    {
+      filename: "images/arena-cave-front.svg",
+      spriteLabel: "arena-cave-front",
+      index: 0
+    },
+    {
+      filename: "images/platform-grass.svg",
+      spriteLabel: "platform-grass",
+      index: 0
+    },
+    {
+      filename: "images/platform-stone.svg",
+      spriteLabel: "platform-stone",
+      index: 0
+    },
+    {
+      filename: "images/player-down-stand.svg",
+      spriteLabel: "player-walk-down",
+      index: 0
+    },
+    {
+      filename: "images/player-down-step1.svg",
+      spriteLabel: "player-walk-down",
+      index: 1
+    },
+    {
+      filename: "images/player-down-stand.svg",
+      spriteLabel: "player-walk-down",
+      index: 2
+    },
+    {
+      filename: "images/player-down-step2.svg",
+      spriteLabel: "player-walk-down",
+      index: 3
+    },
+    {
+      filename: "images/player-down-stand.svg",
+      spriteLabel: "player-idle-down",
+      index: 0
+    },
+    {
+      filename: "images/player-up-stand.svg",
+      spriteLabel: "player-walk-up",
+      index: 0
+    },
+    {
+      filename: "images/player-up-step1.svg",
+      spriteLabel: "player-walk-up",
+      index: 1
+    },
+    {
+      filename: "images/player-up-stand.svg",
+      spriteLabel: "player-walk-up",
+      index: 2
+    },
+    {
+      filename: "images/player-up-step2.svg",
+      spriteLabel: "player-walk-up",
+      index: 3
+    },
+    {
+      filename: "images/player-up-stand.svg",
+      spriteLabel: "player-idle-up",
+      index: 0
+    },
+    {
+      filename: "images/player-left-stand.svg",
+      spriteLabel: "player-walk-left",
+      index: 0
+    },
+    {
+      filename: "images/player-left-step1.svg",
+      spriteLabel: "player-walk-left",
+      index: 1
+    },
+    {
+      filename: "images/player-left-stand.svg",
+      spriteLabel: "player-walk-left",
+      index: 2
+    },
+    {
+      filename: "images/player-left-step2.svg",
+      spriteLabel: "player-walk-left",
+      index: 3
+    },
+    {
+      filename: "images/player-left-stand.svg",
+      spriteLabel: "player-idle-left",
+      index: 0
+    },
+    {
+      filename: "images/player-right-stand.svg",
+      spriteLabel: "player-walk-right",
+      index: 0
+    },
+    {
+      filename: "images/player-right-step1.svg",
+      spriteLabel: "player-walk-right",
+      index: 1
+    },
+    {
+      filename: "images/player-right-stand.svg",
+      spriteLabel: "player-walk-right",
+      index: 2
+    },
+    {
+      filename: "images/player-right-step2.svg",
+      spriteLabel: "player-walk-right",
+      index: 3
+    },
+    {
+      filename: "images/player-right-stand.svg",
+      spriteLabel: "player-idle-right",
+      index: 0
+    },
     { filename: "images/f1.svg", spriteLabel: "test", index: 0 },
     { filename: "images/f2.svg", spriteLabel: "test", index: 1 },
     { filename: "images/f3.svg", spriteLabel: "test", index: 2 },
@@ -88,5 +270,7 @@ export const resources = {
       filename: "fonts/libre-barcode/LibreBarcode39Text-Regular.ttf",
       options: { style: "normal", weight: "normal" } as FontFaceDescriptors
     }
-  ]
+  ],
+  /** music tracks are streamed, so they don't hold up loading */
+  music: [] as { label: string; filename: string }[]
 };
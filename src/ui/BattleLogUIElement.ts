@@ -0,0 +1,133 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Box } from "../Box";
+import { CANV_SIZE, roundedRect } from "../DisplayManager";
+import { UIElement } from "../UIElement";
+import { Vector } from "../Vector";
+import { BattleEvent, describeEvent } from "../battle/BattleEvent";
+
+/**
+ * A scrolling feed of messages describing what happens in a battle. Messages
+ * are revealed one at a time so the player can keep up, and the whole log can
+ * be exported as text
+ */
+export class BattleLogUIElement extends UIElement {
+  /** every message so far, including ones not revealed yet */
+  private readonly messages: string[];
+  /** number of messages revealed so far */
+  private revealed: number;
+  /** game steps between revealing messages, 0 to reveal them instantly */
+  private messageSteps: number;
+  /** steps until the next message is revealed */
+  private countdown: number;
+  /** number of lines visible at a time */
+  private readonly visibleLines = 5;
+  /** height of each line, in pixels */
+  private readonly lineHeight = 26;
+
+  /**
+   * @param messageSteps game steps between revealing messages, 0 to reveal
+   * them instantly
+   */
+  public constructor(messageSteps = 10) {
+    super("battle-log", new Box(new Vector(CANV_SIZE * 0.25, 60), 500, 150));
+    this.messages = [];
+    this.revealed = 0;
+    this.messageSteps = messageSteps;
+    this.countdown = 0;
+  }
+
+  /**
+   * adds a message describing an event to the log
+   * @param event something that happened in the battle
+   */
+  public addEvent(event: BattleEvent): void {
+    const message = describeEvent(event);
+    if (message === undefined) return;
+    this.messages.push(message);
+    if (this.messageSteps <= 0) this.revealed = this.messages.length;
+  }
+
+  /**
+   * @param steps game steps between revealing messages, 0 to reveal them
+   * instantly
+   */
+  public setMessageSteps(steps: number): void {
+    this.messageSteps = steps;
+    if (steps <= 0) this.revealed = this.messages.length;
+  }
+
+  /** get the whole log as text, one message per line */
+  public getText(): string {
+    return this.messages.join("\n");
+  }
+
+  /**
+   * copies the whole log to the clipboard, and prints it to the console in
+   * case the clipboard isn't available
+   */
+  public exportText(): void {
+    const text = this.getText();
+    console.log(text);
+    if (navigator.clipboard !== undefined) {
+      navigator.clipboard
+        .writeText(text)
+        .catch(() => console.log("BattleLog: couldn't copy to clipboard"));
+    }
+  }
+
+  /** reveals the next message once enough steps have passed */
+  public step(): void {
+    if (this.revealed >= this.messages.length) return;
+    if (--this.countdown > 0) return;
+    this.revealed++;
+    this.countdown = this.messageSteps;
+  }
+
+  /** draws the most recently revealed messages */
+  public draw(ctx: CanvasRenderingContext2D): void {
+    const x = this.box.topLeft.x;
+    const y = this.box.topLeft.y;
+    const lines = this.messages.slice(
+      Math.max(this.revealed - this.visibleLines, 0),
+      this.revealed
+    );
+    if (lines.length === 0) return;
+    ctx.save();
+    ctx.fillStyle = "rgba(35, 38, 41, 0.75)";
+    roundedRect(ctx, this.box.topLeft, this.box.width, this.box.height, 10);
+    ctx.fill();
+    ctx.textAlign = "left";
+    ctx.textBaseline = "middle";
+    ctx.font = "20px Bitter";
+    lines.forEach((line, i) => {
+      // older messages fade out
+      ctx.globalAlpha = 1 - (lines.length - 1 - i) * 0.15;
+      ctx.fillStyle = "#d2d2d2";
+      ctx.fillText(
+        line,
+        x + 15,
+        y + 15 + this.lineHeight * (i + 0.5),
+        this.box.width - 30
+      );
+    });
+    ctx.restore();
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Box } from "../Box";
+import { CANV_SIZE, roundedRect } from "../DisplayManager";
+import { UIElement } from "../UIElement";
+import { Vector } from "../Vector";
+import { BattleResults } from "../battle/Battle";
+import { LevelUpSummary } from "../party/PartyMember";
+import { CombatantTraits, TRAIT_ABBREVIATIONS } from "../battle/Combatant";
+import { ItemCount } from "../items/Loot";
+import { getItemDefinition } from "../items/Item";
+
+/** a panel summarizing the outcome of a battle */
+export class BattleResultsUIElement extends UIElement {
+  private readonly results: BattleResults;
+  /** party members who levelled up */
+  private readonly levelUps: LevelUpSummary[];
+  /** items earned that the party couldn't carry */
+  private readonly leftBehind: ItemCount[];
+
+  /**
+   * @param results the outcome and rewards of the battle
+   * @param levelUps what each party member gained from levelling up
+   * @param leftBehind items earned that the party couldn't carry
+   */
+  public constructor(
+    results: BattleResults,
+    levelUps: LevelUpSummary[] = [],
+    leftBehind: ItemCount[] = []
+  ) {
+    super(
+      "battle-results",
+      new Box(new Vector(CANV_SIZE * 0.15, CANV_SIZE * 0.15), 700, 700)
+    );
+    this.results = results;
+    this.levelUps = levelUps;
+    this.leftBehind = leftBehind;
+  }
+
+  /** draws the results panel in the middle of the screen */
+  public draw(ctx: CanvasRenderingContext2D): void {
+    const x = this.box.topLeft.x;
+    let y = this.box.topLeft.y;
+    ctx.save();
+    ctx.fillStyle = "rgba(35, 38, 41, 0.9)";
+    ctx.strokeStyle = "#d2d2d2";
+    ctx.lineWidth = 4;
+    roundedRect(ctx, this.box.topLeft, this.box.width, this.box.height, 20);
+    ctx.fill();
+    ctx.stroke();
+
+    ctx.fillStyle = "#d2d2d2";
+    ctx.textBaseline = "middle";
+    ctx.textAlign = "center";
+    ctx.font = "bold 50px Bitter";
+    y += 60;
+    ctx.fillText(this.getTitle(), x + this.box.width / 2, y);
+
+    ctx.textAlign = "left";
+    ctx.font = "28px Bitter";
+    if (this.results.outcome !== "defeat") {
+      y += 70;
+      if (this.results.outcome === "victory") {
+        ctx.fillText(`Experience: ${this.results.xp}`, x + 40, y);
+        ctx.fillText(`Gold: ${this.results.gold}`, x + 360, y);
+        y += 40;
+      }
+      const items =
+        BattleResultsUIElement.listItems(this.results.items) || "nothing";
+      ctx.fillText(`Items: ${items}`, x + 40, y, this.box.width - 80);
+      if (this.leftBehind.length > 0) {
+        y += 36;
+        ctx.fillStyle = "#a0a4a8";
+        ctx.font = "italic 24px Bitter";
+        ctx.fillText(
+          `Couldn't carry ${BattleResultsUIElement.listItems(this.leftBehind)}`,
+          x + 40,
+          y,
+          this.box.width - 80
+        );
+        ctx.fillStyle = "#d2d2d2";
+        ctx.font = "28px Bitter";
+      }
+      ctx.font = "24px Bitter";
+      ctx.fillStyle = "#f2c12e";
+      for (const summary of this.levelUps) {
+        y += 36;
+        ctx.fillText(
+          BattleResultsUIElement.describeLevelUp(summary),
+          x + 40,
+          y,
+          this.box.width - 80
+        );
+      }
+      ctx.fillStyle = "#d2d2d2";
+    }
+
+    // statistics table
+    y += 70;
+    ctx.font = "bold 24px Bitter";
+    ctx.fillText("Name", x + 40, y);
+    ctx.fillText("Dealt", x + 340, y);
+    ctx.fillText("Taken", x + 460, y);
+    ctx.fillText("Kills", x + 580, y);
+    ctx.font = "24px Bitter";
+    for (const c of this.results.combatants) {
+      y += 40;
+      ctx.fillText(c.name, x + 40, y, 280);
+      ctx.fillText("" + c.stats.damageDealt, x + 340, y);
+      ctx.fillText("" + c.stats.damageTaken, x + 460, y);
+      ctx.fillText("" + c.stats.kills, x + 580, y);
+    }
+
+    ctx.textAlign = "center";
+    ctx.font = "italic 22px Bitter";
+    ctx.fillText(
+      "Press space to continue",
+      x + this.box.width / 2,
+      this.box.topLeft.y + this.box.height - 40
+    );
+    ctx.restore();
+  }
+
+  /**
+   * sums up a level up in one line, like "Knight Lv 2 → 3: +9 Max HP, +2 ATK.
+   * Learned Cleave"
+   */
+  private static describeLevelUp(summary: LevelUpSummary): string {
+    const gains = (Object.keys(summary.gains) as (keyof CombatantTraits)[])
+      .map(key => {
+        const gain = summary.gains[key] ?? 0;
+        const shown = Number.isInteger(gain) ? gain : gain.toFixed(2);
+        return `+${shown} ${TRAIT_ABBREVIATIONS[key]}`;
+      })
+      .join(", ");
+    const learned = summary.learned.map(a => a.name).join(", ");
+    return (
+      `${summary.member.getName()} Lv ${summary.fromLevel} → ` +
+      `${summary.toLevel}: ${gains}` +
+      (learned !== "" ? `. Learned ${learned}` : "")
+    );
+  }
+
+  /** lists items in a few words, like "Potion ×2, Slime Gel" */
+  private static listItems(items: ItemCount[]): string {
+    return items
+      .map(entry => {
+        const name = getItemDefinition(entry.item).name;
+        return entry.count > 1 ? `${name} ×${entry.count}` : name;
+      })
+      .join(", ");
+  }
+
+  /** the heading for the panel, based on the outcome */
+  private getTitle(): string {
+    switch (this.results.outcome) {
+      case "victory":
+        return "Victory!";
+      case "defeat":
+        return "Defeat...";
+      case "escape":
+        return "Escaped!";
+    }
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Box } from "../Box";
+import { roundedRect } from "../DisplayManager";
+import { UIElement } from "../UIElement";
+
+/** one selectable line in a menu */
+export type MenuOption = {
+  label: string;
+  /** disabled options are drawn grayed out and can't be chosen */
+  enabled: boolean;
+  /** shown at the bottom of the menu while the option is highlighted */
+  description?: string;
+};
+
+/**
+ * A vertical list of options with a cursor, for navigating menus. Lists too
+ * long to fit scroll to keep the cursor in view
+ */
+export class MenuUIElement extends UIElement {
+  /** lines of this menu, top to bottom */
+  private options: MenuOption[];
+  /** index of the highlighted option */
+  private cursor: number;
+  /** index of the first option shown */
+  private scroll: number;
+  /** heading drawn above the options */
+  private title: string;
+  /** height of each line, in pixels */
+  private readonly lineHeight = 40;
+
+  /**
+   * @param label a unique string identifier for this menu
+   * @param box location and size of the menu on the screen
+   * @param title heading drawn above the options
+   * @param options lines of this menu, top to bottom
+   */
+  public constructor(
+    label: string,
+    box: Box,
+    title: string,
+    options: MenuOption[]
+  ) {
+    super(label, box);
+    this.title = title;
+    this.options = options;
+    this.cursor = 0;
+    this.scroll = 0;
+  }
+
+  /**
+   * replaces the contents of this menu and moves the cursor to the top
+   * @param title new heading
+   * @param options new lines, top to bottom
+   */
+  public setOptions(title: string, options: MenuOption[]): void {
+    this.title = title;
+    this.options = options;
+    this.cursor = 0;
+    this.scroll = 0;
+  }
+
+  /** get the index of the highlighted option */
+  public getCursor(): number {
+    return this.cursor;
+  }
+
+  /** get the highlighted option, if there are any options */
+  public getSelected(): MenuOption | undefined {
+    return this.options[this.cursor];
+  }
+
+  /**
+   * moves the cursor up or down, wrapping around at the ends
+   * @param delta how many lines to move, negative for up
+   */
+  public moveCursor(delta: number): void {
+    if (this.options.length === 0) return;
+    const n = this.options.length;
+    this.cursor = (((this.cursor + delta) % n) + n) % n;
+    // scroll just far enough to show the cursor
+    const visible = this.getVisibleLines();
+    if (this.cursor < this.scroll) {
+      this.scroll = this.cursor;
+    } else if (this.cursor >= this.scroll + visible) {
+      this.scroll = this.cursor - visible + 1;
+    }
+  }
+
+  /**
+   * get how many options fit at once, leaving room for the title above and
+   * the description below
+   */
+  private getVisibleLines(): number {
+    return Math.max(Math.floor((this.box.height - 80) / this.lineHeight), 1);
+  }
+
+  /** draws the menu panel with its options and cursor */
+  public draw(ctx: CanvasRenderingContext2D): void {
+    const x = this.box.topLeft.x;
+    const y = this.box.topLeft.y;
+    ctx.save();
+    ctx.fillStyle = "rgba(35, 38, 41, 0.9)";
+    ctx.strokeStyle = "#d2d2d2";
+    ctx.lineWidth = 3;
+    roundedRect(ctx, this.box.topLeft, this.box.width, this.box.height, 12);
+    ctx.fill();
+    ctx.stroke();
+
+    ctx.textAlign = "left";
+    ctx.textBaseline = "middle";
+    ctx.fillStyle = "#d2d2d2";
+    ctx.font = "bold 26px Bitter";
+    ctx.fillText(this.title, x + 20, y + 30, this.box.width - 40);
+
+    ctx.font = "24px Bitter";
+    const visible = this.getVisibleLines();
+    const shown = this.options.slice(this.scroll, this.scroll + visible);
+    shown.forEach((option, row) => {
+      const lineY = y + 30 + (row + 1) * this.lineHeight;
+      ctx.fillStyle = option.enabled ? "#d2d2d2" : "#6b6e70";
+      if (this.scroll + row === this.cursor) {
+        ctx.fillText("▶", x + 16, lineY);
+      }
+      ctx.fillText(option.label, x + 46, lineY, this.box.width - 86);
+    });
+
+    // arrows show there are more options to scroll to
+    ctx.fillStyle = "#a0a4a8";
+    ctx.font = "18px Bitter";
+    if (this.scroll > 0) {
+      ctx.fillText("▲", x + this.box.width - 34, y + 30 + this.lineHeight);
+    }
+    if (this.scroll + visible < this.options.length) {
+      ctx.fillText(
+        "▼",
+        x + this.box.width - 34,
+        y + 30 + shown.length * this.lineHeight
+      );
+    }
+
+    const description = this.getSelected()?.description;
+    if (description !== undefined) {
+      ctx.fillStyle = "#a0a4a8";
+      ctx.font = "italic 20px Bitter";
+      ctx.fillText(
+        description,
+        x + 20,
+        y + this.box.height - 24,
+        this.box.width - 40
+      );
+    }
+    ctx.restore();
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Box } from "../Box";
+import { CANV_SIZE, roundedRect } from "../DisplayManager";
+import { UIElement } from "../UIElement";
+import { Vector } from "../Vector";
+import { Row } from "../battle/Formation";
+import { PartyMember } from "../party/PartyMember";
+
+/** one line on the party screen, which may be empty */
+export type PartySlot = {
+  /** the member in this slot, or undefined for an empty slot */
+  member: PartyMember | undefined;
+  /** whether the slot is in the active part of the party */
+  active: boolean;
+  /** the row active slots stand in */
+  row?: Row;
+};
+
+/** a panel listing the active and reserve members of the party */
+export class PartyUIElement extends UIElement {
+  /** lines of the panel, active slots first */
+  private slots: PartySlot[];
+  /** index of the highlighted slot */
+  private cursor: number;
+  /** index of the slot picked up to be swapped, if there is one */
+  private held: number | undefined;
+  /** name of the party's formation */
+  private formationName: string;
+  /** height of each line, in pixels */
+  private readonly lineHeight = 44;
+
+  public constructor() {
+    super(
+      "party-screen",
+      new Box(new Vector(CANV_SIZE * 0.1, CANV_SIZE * 0.1), 800, 800)
+    );
+    this.slots = [];
+    this.cursor = 0;
+    this.held = undefined;
+    this.formationName = "";
+  }
+
+  /**
+   * replaces what the panel shows
+   * @param slots lines of the panel, active slots first
+   * @param cursor index of the highlighted slot
+   * @param held index of the slot picked up to be swapped, if there is one
+   * @param formationName name of the party's formation
+   */
+  public update(
+    slots: PartySlot[],
+    cursor: number,
+    held: number | undefined,
+    formationName: string
+  ): void {
+    this.slots = slots;
+    this.cursor = cursor;
+    this.held = held;
+    this.formationName = formationName;
+  }
+
+  /** draws the party panel in the middle of the screen */
+  public draw(ctx: CanvasRenderingContext2D): void {
+    const x = this.box.topLeft.x;
+    let y = this.box.topLeft.y;
+    ctx.save();
+    ctx.fillStyle = "rgba(35, 38, 41, 0.9)";
+    ctx.strokeStyle = "#d2d2d2";
+    ctx.lineWidth = 4;
+    roundedRect(ctx, this.box.topLeft, this.box.width, this.box.height, 20);
+    ctx.fill();
+    ctx.stroke();
+
+    ctx.fillStyle = "#d2d2d2";
+    ctx.textBaseline = "middle";
+    ctx.textAlign = "left";
+    ctx.font = "bold 40px Bitter";
+    y += 50;
+    ctx.fillText("Party", x + 40, y);
+    ctx.textAlign = "right";
+    ctx.font = "24px Bitter";
+    ctx.fillText(
+      `◀ ${this.formationName} ▶`,
+      x + this.box.width - 40,
+      y,
+      this.box.width / 2
+    );
+
+    ctx.textAlign = "left";
+    this.slots.forEach((slot, i) => {
+      // a heading before each part of the party
+      if (i === 0 || slot.active !== this.slots[i - 1].active) {
+        y += this.lineHeight + 10;
+        ctx.fillStyle = "#a0a4a8";
+        ctx.font = "bold 24px Bitter";
+        ctx.fillText(slot.active ? "Active" : "Reserve", x + 40, y);
+      }
+      y += this.lineHeight;
+      ctx.font = "24px Bitter";
+      ctx.fillStyle = i === this.held ? "#f2c12e" : "#d2d2d2";
+      if (i === this.cursor) ctx.fillText("▶", x + 36, y);
+      const member = slot.member;
+      if (member === undefined) {
+        ctx.fillStyle = "#6b6e70";
+        ctx.fillText("(empty)", x + 66, y);
+        return;
+      }
+      const traits = member.getTraits();
+      const condition = member.getCondition();
+      ctx.fillText(member.getName(), x + 66, y, 200);
+      ctx.fillText(`Lv ${member.getLevel()}`, x + 280, y);
+      ctx.fillText(`${condition.hp}/${traits.maxHp} HP`, x + 370, y);
+      ctx.fillText(`${condition.mp}/${traits.maxMp} MP`, x + 530, y);
+      if (slot.row !== undefined) {
+        ctx.fillText(slot.row === "front" ? "Front" : "Back", x + 670, y);
+      }
+    });
+
+    ctx.fillStyle = "#a0a4a8";
+    ctx.textAlign = "center";
+    ctx.font = "italic 20px Bitter";
+    ctx.fillText(
+      "Space: pick up / swap   R: change row   ◀ ▶: formation   Tab: close",
+      x + this.box.width / 2,
+      this.box.topLeft.y + this.box.height - 36,
+      this.box.width - 60
+    );
+    ctx.restore();
+  }
+}
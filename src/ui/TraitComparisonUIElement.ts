@@ -0,0 +1,144 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Box } from "../Box";
+import { roundedRect } from "../DisplayManager";
+import { UIElement } from "../UIElement";
+import { CombatantTraits, TRAIT_ABBREVIATIONS } from "../battle/Combatant";
+
+/** traits listed in the comparison, top to bottom */
+const SHOWN_TRAITS: (keyof CombatantTraits)[] = [
+  "maxHp",
+  "maxMp",
+  "attack",
+  "defense",
+  "magic",
+  "resistance",
+  "speed",
+  "accuracy",
+  "evasion",
+  "critChance"
+];
+
+/**
+ * formats a trait value, showing chances as percentages
+ * @param key which trait the value is for
+ * @param value the value to format
+ */
+const formatTrait = (key: keyof CombatantTraits, value: number): string =>
+  key === "accuracy" || key === "evasion" || key === "critChance"
+    ? `${Math.round(value * 100)}%`
+    : "" + value;
+
+/**
+ * A panel comparing a set of traits before and after a change, such as putting
+ * on a piece of equipment. Traits that go up are green and ones that go down
+ * are red
+ */
+export class TraitComparisonUIElement extends UIElement {
+  /** heading drawn above the traits */
+  private title: string;
+  /** traits without the change */
+  private before: CombatantTraits | undefined;
+  /** traits with the change */
+  private after: CombatantTraits | undefined;
+  /** extra lines drawn below the traits, like skills the change grants */
+  private notes: string[];
+
+  /**
+   * @param label a unique string identifier for this panel
+   * @param box location and size of the panel on the screen
+   */
+  public constructor(label: string, box: Box) {
+    super(label, box);
+    this.title = "";
+    this.before = undefined;
+    this.after = undefined;
+    this.notes = [];
+  }
+
+  /**
+   * replaces what the panel compares
+   * @param title heading drawn above the traits
+   * @param before traits without the change, or undefined to show nothing
+   * @param after traits with the change, defaults to no change
+   * @param notes extra lines drawn below the traits
+   */
+  public update(
+    title: string,
+    before: CombatantTraits | undefined,
+    after = before,
+    notes: string[] = []
+  ): void {
+    this.title = title;
+    this.before = before;
+    this.after = after;
+    this.notes = notes;
+  }
+
+  /** draws the comparison panel */
+  public draw(ctx: CanvasRenderingContext2D): void {
+    const x = this.box.topLeft.x;
+    let y = this.box.topLeft.y;
+    ctx.save();
+    ctx.fillStyle = "rgba(35, 38, 41, 0.9)";
+    ctx.strokeStyle = "#d2d2d2";
+    ctx.lineWidth = 3;
+    roundedRect(ctx, this.box.topLeft, this.box.width, this.box.height, 12);
+    ctx.fill();
+    ctx.stroke();
+
+    ctx.textBaseline = "middle";
+    ctx.textAlign = "left";
+    ctx.fillStyle = "#d2d2d2";
+    ctx.font = "bold 26px Bitter";
+    y += 30;
+    ctx.fillText(this.title, x + 20, y, this.box.width - 40);
+
+    const before = this.before;
+    const after = this.after;
+    if (before !== undefined && after !== undefined) {
+      ctx.font = "24px Bitter";
+      for (const key of SHOWN_TRAITS) {
+        y += 36;
+        const change = after[key] - before[key];
+        ctx.fillStyle = "#a0a4a8";
+        ctx.fillText(TRAIT_ABBREVIATIONS[key], x + 20, y);
+        ctx.fillStyle = "#d2d2d2";
+        ctx.textAlign = "right";
+        ctx.fillText(formatTrait(key, before[key]), x + 200, y);
+        if (change !== 0) {
+          ctx.fillStyle = change > 0 ? "#6fd66f" : "#e05d5d";
+          ctx.fillText("→", x + 240, y);
+          ctx.fillText(formatTrait(key, after[key]), x + 320, y);
+        }
+        ctx.textAlign = "left";
+      }
+    }
+
+    ctx.fillStyle = "#f2c12e";
+    ctx.font = "italic 20px Bitter";
+    y += 20;
+    for (const note of this.notes) {
+      y += 30;
+      ctx.fillText(note, x + 20, y, this.box.width - 40);
+    }
+    ctx.restore();
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Box } from "../Box";
+import { CANV_SIZE, roundedRect } from "../DisplayManager";
+import { UIElement } from "../UIElement";
+import { Vector } from "../Vector";
+import { Combatant } from "../battle/Combatant";
+import { Battle } from "../battle/Battle";
+
+/**
+ * A strip across the top of the battle screen listing who acts next, followed
+ * by a dimmed preview of the next round. It reads the queue from the battle
+ * every time it's drawn, so it keeps up with speed changes and defeats
+ */
+export class TurnOrderUIElement extends UIElement {
+  /** the battle whose turn order is shown */
+  private readonly battle: Battle;
+  /** width of each combatant's entry, in pixels */
+  private readonly entryWidth = 110;
+  /** space between entries, in pixels */
+  private readonly gap = 6;
+
+  /**
+   * @param battle the battle whose turn order is shown
+   */
+  public constructor(battle: Battle) {
+    super("turn-order", new Box(new Vector(CANV_SIZE * 0.2, 10), 600, 40));
+    this.battle = battle;
+  }
+
+  /** draws the current round, then the next round after a divider */
+  public draw(ctx: CanvasRenderingContext2D): void {
+    const upNext = this.battle.getUpNext();
+    if (upNext.length === 0) return;
+    const step = this.entryWidth + this.gap;
+    const maxEntries = Math.floor(this.box.width / step);
+    const preview = this.battle
+      .previewNextRound()
+      .slice(0, Math.max(maxEntries - upNext.length, 0));
+
+    ctx.save();
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    let x = this.box.topLeft.x;
+    upNext.slice(0, maxEntries).forEach((c, i) => {
+      this.drawEntry(ctx, c, x, i === 0, false);
+      x += step;
+    });
+    if (preview.length > 0) {
+      // divider between this round and the next
+      ctx.fillStyle = "#d2d2d2";
+      ctx.fillRect(x - this.gap / 2 - 1, this.box.topLeft.y, 2, 40);
+    }
+    for (const c of preview) {
+      this.drawEntry(ctx, c, x, false, true);
+      x += step;
+    }
+    ctx.restore();
+  }
+
+  /**
+   * draws one combatant's entry in the timeline
+   * @param x left edge of the entry
+   * @param current whether it's this combatant's turn
+   * @param dimmed whether the entry is part of the next round preview
+   */
+  private drawEntry(
+    ctx: CanvasRenderingContext2D,
+    c: Combatant,
+    x: number,
+    current: boolean,
+    dimmed: boolean
+  ): void {
+    const pos = new Vector(x, this.box.topLeft.y);
+    ctx.globalAlpha = dimmed ? 0.5 : 1;
+    ctx.fillStyle = c.isEnemy() ? "#7a2a2a" : "#2a4a7a";
+    ctx.strokeStyle = current ? "#f2c12e" : "#d2d2d2";
+    ctx.lineWidth = current ? 4 : 2;
+    roundedRect(ctx, pos, this.entryWidth, this.box.height, 8);
+    ctx.fill();
+    ctx.stroke();
+    ctx.fillStyle = "#d2d2d2";
+    ctx.font = current ? "bold 18px Bitter" : "18px Bitter";
+    ctx.fillText(
+      c.getName(),
+      x + this.entryWidth / 2,
+      pos.y + this.box.height / 2,
+      this.entryWidth - 10
+    );
+    ctx.globalAlpha = 1;
+  }
+}
@@ -22,6 +22,28 @@ import { Room } from "../Room";
 import { Vector } from "../Vector";
 import { FreeRoamEntity } from "../FreeRoamEntity";
 import { CANV_SIZE } from "../DisplayManager";
+import { Combatant } from "../battle/Combatant";
+import { BattleOptions, WorldBattle } from "../battle/WorldBattle";
+import { BattleOutcome } from "../battle/Battle";
+import { FreeRoamEnemy } from "../FreeRoamEnemy";
+import { PlayerEntity } from "../PlayerEntity";
+import { EncounterZone } from "../EncounterZone";
+import { RNG } from "../RandomManager";
+import { WM } from "../WorldManager";
+import { IM } from "../InputManager";
+import { PM } from "../PartyManager";
+import { PartyScreen } from "../party/PartyScreen";
+import { InventoryScreen } from "../items/InventoryScreen";
+import { EquipScreen } from "../items/EquipScreen";
+
+/** pixels the player has to walk between encounter checks */
+const ENCOUNTER_STEP_LENGTH = 40;
+/** encounter checks after a battle that can't start another one */
+const SAFE_STEPS = 6;
+/** game steps the flash before a battle lasts */
+const TRANSITION_STEPS = 20;
+/** game steps an enemy the player escaped from leaves them alone */
+const ESCAPE_GRACE_STEPS = 90;
 
 /**
  * This is a world in which the player character can walk around, talk to NPCs,
@@ -39,6 +61,26 @@ export class WorldFreeRoam extends World {
    * moving. Set to 0 for the camera to always follow the cameraEntity
    */
   public cameraDeadZone: number;
+  /** entity the player controls with the "move" directional */
+  protected player: PlayerEntity | undefined;
+  /** whether the run button is held */
+  private runHeld: boolean;
+  /** whether to draw barriers and collision boxes over the room */
+  public showCollision: boolean;
+  /** the party, inventory or equip screen, while one is open */
+  private menuScreen: PartyScreen | InventoryScreen | EquipScreen | undefined;
+  /** where the camera entity was last step */
+  private lastPosition: Vector | undefined;
+  /** pixels walked since the last encounter check */
+  private distanceWalked: number;
+  /** encounter checks left before encounters can happen again */
+  private safeSteps: number;
+  /** the battle about to start, while flashing into it */
+  private pendingBattle: WorldBattle | undefined;
+  /** game steps left in the flash before the pending battle */
+  private transitionSteps: number;
+  /** where the camera entity was when the last battle started */
+  private returnPosition: Vector | undefined;
 
   /**
    * Creates a new WorldFreeRoam
@@ -49,6 +91,73 @@ export class WorldFreeRoam extends World {
     this.cameraOffset = new Vector(0, 0);
     this.cameraEntity = undefined;
     this.cameraDeadZone = 0;
+    this.player = undefined;
+    this.runHeld = false;
+    this.showCollision = false;
+    this.menuScreen = undefined;
+    this.lastPosition = undefined;
+    this.distanceWalked = 0;
+    this.safeSteps = SAFE_STEPS;
+    this.pendingBattle = undefined;
+    this.transitionSteps = 0;
+    this.returnPosition = undefined;
+  }
+
+  /**
+   * puts the player back where they were when the battle started, and gives
+   * them a few steps before the next encounter
+   * @override
+   */
+  public enter(): void {
+    IM.registerButton("party", "p", 3);
+    IM.setOnPressed("party", () => this.openScreen(new PartyScreen()));
+    IM.registerButton("inventory", "i");
+    IM.setOnPressed("inventory", () => this.openScreen(new InventoryScreen()));
+    IM.registerButton("equip", "g");
+    IM.setOnPressed("equip", () => this.openScreen(new EquipScreen()));
+    IM.registerButton("run", "Shift", 2);
+    IM.setOnPressed("run", () => (this.runHeld = true));
+    IM.setOnReleased("run", () => (this.runHeld = false));
+    IM.registerButton("collision", "`");
+    IM.setOnPressed(
+      "collision",
+      () => (this.showCollision = !this.showCollision)
+    );
+    if (this.returnPosition !== undefined && this.cameraEntity !== undefined) {
+      this.cameraEntity.drawBox.topLeft = this.returnPosition;
+      this.returnPosition = undefined;
+    }
+    this.lastPosition = this.cameraEntity?.drawBox.topLeft;
+    this.distanceWalked = 0;
+    this.safeSteps = SAFE_STEPS;
+  }
+
+  /** @override */
+  public exit(): void {
+    this.menuScreen?.close();
+    IM.unregisterButton("party");
+    IM.unregisterButton("inventory");
+    IM.unregisterButton("equip");
+    IM.unregisterButton("run");
+    IM.unregisterButton("collision");
+    this.runHeld = false;
+    this.player?.move(new Vector(0, 0), false);
+  }
+
+  /**
+   * opens a menu screen, pausing the world until it's closed
+   * @param screen the screen to open
+   */
+  private openScreen(
+    screen: PartyScreen | InventoryScreen | EquipScreen
+  ): void {
+    if (this.menuScreen !== undefined || this.pendingBattle !== undefined) {
+      return;
+    }
+    this.menuScreen = screen;
+    screen.open().then(() => {
+      if (this.menuScreen === screen) this.menuScreen = undefined;
+    });
   }
 
   /**
@@ -85,16 +194,207 @@ export class WorldFreeRoam extends World {
     ctx.translate(-this.cameraOffset.x, -this.cameraOffset.y);
     if (this.currentRoom !== null && this.currentRoom !== undefined) {
       this.currentRoom.draw(ctx);
+      if (this.showCollision) this.drawCollision(ctx, this.currentRoom);
     }
     // translate back
     ctx.translate(this.cameraOffset.x, this.cameraOffset.y);
+
+    if (this.pendingBattle !== undefined) {
+      // flash in and out a few times before the battle
+      const t = 1 - this.transitionSteps / TRANSITION_STEPS;
+      ctx.save();
+      ctx.fillStyle = "#ffffff";
+      ctx.globalAlpha = Math.abs(Math.sin(t * Math.PI * 3)) * 0.8;
+      ctx.fillRect(0, 0, CANV_SIZE, CANV_SIZE);
+      ctx.restore();
+    }
+  }
+
+  /**
+   * draws the room's barriers and every entity's collision box, for debugging
+   * @param ctx the canvas context to draw on, translated to room coordinates
+   * @param room the room to draw the shapes of
+   */
+  private drawCollision(ctx: CanvasRenderingContext2D, room: Room): void {
+    ctx.save();
+    ctx.lineWidth = 3;
+    ctx.setLineDash([]);
+    ctx.strokeStyle = "rgba(255, 0, 0, 1)";
+    ctx.fillStyle = "rgba(255, 0, 0, 0.25)";
+    for (const barrier of room.getBarriers()) {
+      const points = barrier.getPoints();
+      if (points.length === 0) continue;
+      ctx.beginPath();
+      ctx.moveTo(points[0].x, points[0].y);
+      points.forEach(point => ctx.lineTo(point.x, point.y));
+      ctx.closePath();
+      ctx.fill();
+      ctx.stroke();
+    }
+    for (const entity of room.getEntities()) {
+      // solid entities block others, the rest only touch
+      ctx.strokeStyle = entity.solid ? "#f2c12e" : "#3daee9";
+      ctx.beginPath();
+      entity.getCollisionBox().drawRect(ctx);
+      ctx.stroke();
+    }
+    ctx.restore();
   }
 
   /**
    * actions to take each game step
    */
   public step(): void {
-    // TODO implement
+    if (this.menuScreen !== undefined) return;
+    if (this.pendingBattle !== undefined) {
+      if (--this.transitionSteps <= 0) {
+        const battle = this.pendingBattle;
+        this.pendingBattle = undefined;
+        WM.enterWorld(battle);
+      }
+      return;
+    }
+    this.stepPlayer();
+    this.stepEnemies();
+    if (this.pendingBattle === undefined) this.checkForEncounter();
+  }
+
+  /**
+   * moves the player wherever the "move" directional points, stopping at
+   * barriers and solid entities
+   */
+  private stepPlayer(): void {
+    const player = this.player;
+    if (player === undefined) return;
+    const velocity = player.getVelocity(
+      IM.getDirectionalVec("move"),
+      this.runHeld
+    );
+    const allowed = this.currentRoom?.collide(player, velocity) ?? velocity;
+    player.move(allowed, this.runHeld, velocity);
+  }
+
+  /**
+   * moves the enemies walking around the room, and starts a battle with the
+   * first one touching the camera entity
+   */
+  private stepEnemies(): void {
+    if (this.currentRoom === undefined) return;
+    const player = this.cameraEntity;
+    const enemies = this.currentRoom
+      .getEntities()
+      .filter((e): e is FreeRoamEnemy => e instanceof FreeRoamEnemy);
+    for (const enemy of enemies) {
+      enemy.step(player, velocity =>
+        this.currentRoom !== undefined
+          ? this.currentRoom.collide(enemy, velocity)
+          : velocity
+      );
+      if (
+        player !== undefined &&
+        enemy.canFight() &&
+        enemy.getCollisionBox().intersects(player.getCollisionBox())
+      ) {
+        this.startContactBattle(enemy, player);
+        return;
+      }
+    }
+  }
+
+  /**
+   * starts flashing into a battle against an enemy the camera entity touched
+   * @param enemy the enemy that was touched
+   * @param player the camera entity
+   */
+  private startContactBattle(
+    enemy: FreeRoamEnemy,
+    player: FreeRoamEntity
+  ): void {
+    this.startBattle(
+      enemy.createEnemies(),
+      {
+        arena: enemy.options.arena,
+        advantage: FreeRoamEnemy.contactAdvantage(player, enemy)
+      },
+      outcome => {
+        if (outcome === "victory") {
+          enemy.defeat();
+          if (enemy.isGone()) this.currentRoom?.removeEntity(enemy);
+        } else if (outcome === "escape") {
+          enemy.stun(ESCAPE_GRACE_STEPS);
+        }
+      }
+    );
+  }
+
+  /**
+   * rolls for a random encounter each time the camera entity walks far enough
+   * inside an encounter zone
+   */
+  private checkForEncounter(): void {
+    const entity = this.cameraEntity;
+    if (entity === undefined || this.currentRoom === undefined) return;
+    const position = entity.drawBox.topLeft;
+    if (this.lastPosition !== undefined) {
+      this.distanceWalked += position.distanceTo(this.lastPosition);
+    }
+    this.lastPosition = position;
+    while (this.distanceWalked >= ENCOUNTER_STEP_LENGTH) {
+      this.distanceWalked -= ENCOUNTER_STEP_LENGTH;
+      if (this.safeSteps > 0) {
+        this.safeSteps--;
+        continue;
+      }
+      const zone = this.currentRoom.getEncounterZoneAt(
+        entity.drawBox.getCenter()
+      );
+      if (zone?.rollEncounter(RNG.stream("encounters"))) {
+        this.startEncounter(zone);
+        return;
+      }
+    }
+  }
+
+  /**
+   * starts flashing into a battle against a group from an encounter zone
+   * @param zone the zone the encounter happened in
+   */
+  public startEncounter(zone: EncounterZone): void {
+    this.startBattle(zone.createEnemies(RNG.stream("encounters")), {
+      arena: zone.table.arena
+    });
+  }
+
+  /**
+   * starts flashing into a battle, which returns to this world afterward. The
+   * party's active members fight on the left side
+   * @param enemies the side to fight
+   * @param options settings for the battle. The arena defaults to the room's
+   * @param onEnd called with how the battle ended
+   */
+  private startBattle(
+    enemies: Combatant[],
+    options: BattleOptions,
+    onEnd?: (outcome: BattleOutcome) => void
+  ): void {
+    if (PM.getActive().length === 0 || this.pendingBattle !== undefined) {
+      return;
+    }
+    const position = this.cameraEntity?.drawBox.topLeft;
+    if (position !== undefined) {
+      this.returnPosition = new Vector(position.x, position.y);
+    }
+    this.pendingBattle = new WorldBattle(PM.createCombatants(), enemies, {
+      ...options,
+      returnWorld: this,
+      arena: options.arena ?? this.currentRoom?.getArena()
+    });
+    if (onEnd !== undefined) {
+      this.pendingBattle.addListener(event => {
+        if (event.type === "battle end") onEnd(event.outcome);
+      });
+    }
+    this.transitionSteps = TRANSITION_STEPS;
   }
 
   /**
@@ -105,6 +405,20 @@ export class WorldFreeRoam extends World {
     this.currentRoom = newRoom;
   }
 
+  /**
+   * sets the entity the player controls, which the camera follows
+   * @param player the player's entity, or undefined for none
+   */
+  public setPlayer(player: PlayerEntity | undefined): void {
+    this.player = player;
+    this.cameraEntity = player;
+  }
+
+  /** get the entity the player controls, if there is one */
+  public getPlayer(): PlayerEntity | undefined {
+    return this.player;
+  }
+
   /**
    * @param newCameraEntity new entity for the camera to follow, or undefined
    * for a static camera
@@ -0,0 +1,69 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { World } from "../World";
+import { CANV_SIZE } from "../DisplayManager";
+import { IM } from "../InputManager";
+import { WM } from "../WorldManager";
+import { WorldMainMenu } from "./WorldMainMenu";
+
+/**
+ * This world is shown when the player's whole side is defeated in battle
+ */
+export class WorldGameOver extends World {
+  /**
+   * constructs the game over screen
+   */
+  public constructor() {
+    super();
+    this.setType("Game Over");
+  }
+
+  /**
+   * return to the main menu when the primary button is pressed
+   */
+  public enter(): void {
+    IM.setOnPressed("primary", () => {
+      WM.enterWorld(new WorldMainMenu());
+    });
+  }
+
+  /** @override */
+  public exit(): void {
+    IM.setOnPressed("primary", undefined);
+  }
+
+  /**
+   * draws a game over message in the center of the screen
+   * @param ctx the canvas context to draw on
+   */
+  public draw(ctx: CanvasRenderingContext2D): void {
+    ctx.fillStyle = "#cccccc";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.font = "bold 80px Bitter";
+    ctx.fillText("Game Over", CANV_SIZE / 2, CANV_SIZE / 2 - 50);
+    ctx.font = "italic 30px Bitter";
+    ctx.fillText("Press space to continue", CANV_SIZE / 2, CANV_SIZE / 2 + 50);
+  }
+
+  public step(): void {
+    return;
+  }
+}
@@ -25,8 +25,15 @@ import { Room } from "../Room";
 import { Vector } from "../Vector";
 import { EntityTest } from "../EntityTest";
 import { WorldBattle } from "../battle/WorldBattle";
-import { TestCombatant } from "../battle/TestCombatant";
-import { Combatant } from "../battle/Combatant";
+import { getCharacterDefinition, PartyMember } from "../party/PartyMember";
+import { TestEnemy } from "../battle/TestEnemy";
+import { WorldFreeRoam } from "./WorldFreeRoam";
+import { EncounterZone } from "../EncounterZone";
+import { Polygon } from "../Polygon";
+import { FreeRoamEnemy } from "../FreeRoamEnemy";
+import { PlayerEntity } from "../PlayerEntity";
+import { PM } from "../PartyManager";
+import { INV } from "../InventoryManager";
 
 /**
  * a World that displays a loading bar while resources are being loaded
@@ -77,6 +84,36 @@ export class WorldLoading extends World {
     if (1 - this.percentLoaded <= 0.01) {
       // TODO move on to next world
       const room = new Room("Test Room");
+      room.setArena("field");
+      room.addEncounterZone(
+        new EncounterZone(
+          new Polygon(
+            new Vector(200, 500),
+            new Vector(800, 500),
+            new Vector(800, 900),
+            new Vector(200, 900)
+          ),
+          {
+            rate: 0.1,
+            groups: [
+              { enemies: ["slime", "slime"], weight: 3 },
+              { enemies: ["bat", "slime", "bat"], weight: 2 },
+              { enemies: ["slime", "goblin-shaman", "slime"], weight: 1 },
+              { enemies: ["big-slime"], weight: 1 }
+            ],
+            levels: { min: 1, max: 3 }
+          }
+        )
+      );
+      // a fence to walk into, with a slanted end to slide along
+      room.addBarriers(
+        new Polygon(
+          new Vector(-100, 420),
+          new Vector(560, 420),
+          new Vector(640, 470),
+          new Vector(-100, 470)
+        )
+      );
       const spr = RM.getSprite("test-bg");
       if (spr !== undefined) {
         room.addBackground(spr, new Vector(500, 300), 600, 200, 0);
@@ -107,11 +144,68 @@ export class WorldLoading extends World {
           ballSpr,
           2
         );
+        for (const e of [e0, e1, e2]) {
+          // only the bottom of each ball gets in the way
+          e.setCollisionBox(new Vector(20, 60), 60, 40);
+          e.solid = true;
+        }
         room.addEntities(e0, e1, e2);
       }
-      const leftSide = new Array<Combatant>(2).fill(new TestCombatant());
-      const rightSide = new Array<Combatant>(4).fill(new TestCombatant());
-      WM.enterWorld(new WorldBattle(leftSide, rightSide));
+      room.addEntities(
+        new FreeRoamEnemy("Patrolling Troll", new Vector(900, 400), 80, 80, {
+          group: ["cave-troll"],
+          level: 2,
+          patrol: [new Vector(900, 400), new Vector(900, 800)],
+          respawnSteps: 900,
+          color: "#8a6d5a"
+        })
+      );
+      const player = new PlayerEntity("Player", new Vector(500, 300), 60, 60, {
+        walkSprites: {
+          up: "player-walk-up",
+          right: "player-walk-right",
+          down: "player-walk-down",
+          left: "player-walk-left"
+        },
+        idleSprites: {
+          up: "player-idle-up",
+          right: "player-idle-right",
+          down: "player-idle-down",
+          left: "player-idle-left"
+        }
+      });
+      player.altitude = 3;
+      player.setCollisionBox(new Vector(10, 30), 40, 30);
+      room.addEntities(player);
+      PM.join(new PartyMember(getCharacterDefinition("knight"), 2));
+      PM.join(new PartyMember(getCharacterDefinition("mage"), 2));
+      PM.join(new PartyMember(getCharacterDefinition("rogue"), 2));
+      PM.join(new PartyMember(getCharacterDefinition("cleric"), 2), true);
+      const inventory = INV.getInventory();
+      inventory.add("potion", 5);
+      inventory.add("ether", 2);
+      inventory.add("antidote", 2);
+      inventory.add("oak-staff");
+      inventory.add("ember-ring");
+      inventory.add("swift-boots", 2);
+      const leftSide = PM.createCombatants();
+      const rightSide = [
+        new TestEnemy("Brute 1"),
+        new TestEnemy("Shaman", "shaman"),
+        new TestEnemy("Warlord", "warlord"),
+        new TestEnemy("Brute 2")
+      ];
+      rightSide[1].row = "back";
+      const freeRoam = new WorldFreeRoam();
+      freeRoam.setRoom(room);
+      freeRoam.setPlayer(player);
+      freeRoam.cameraDeadZone = 150;
+      WM.enterWorld(
+        new WorldBattle(leftSide, rightSide, {
+          returnWorld: freeRoam,
+          arena: room.getArena()
+        })
+      );
     }
   }
 }
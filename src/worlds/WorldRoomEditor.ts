@@ -44,6 +44,8 @@ export type roomDefinition = {
   barriers: Polygon[];
   bgObjects: Background[]; // arranged in layers
   entityDefinitions: { label: string; drawBox: Box; altitude: number }[];
+  /** identifier of the arena battles in this room are fought in */
+  arena: string;
 };
 
 /**
@@ -78,7 +80,8 @@ export class WorldRoomEditor extends WorldFreeRoam {
     super();
     this.setType("Room Editor");
     this.setRoom(room);
-    this.completedPolygons = new Array<Polygon>();
+    // start from the barriers the room already has
+    this.completedPolygons = [...room.getBarriers()];
     this.selectedEntity = undefined;
     this.mode = Mode.drawBarrier;
     this.mousePos = new Vector(0, 0);
@@ -484,7 +487,8 @@ export class WorldRoomEditor extends WorldFreeRoam {
     const out: roomDefinition = {
       barriers: this.completedPolygons,
       bgObjects: this.currentRoom?.getBackgrounds() ?? [],
-      entityDefinitions: entityDefinitions
+      entityDefinitions: entityDefinitions,
+      arena: this.currentRoom?.getArena() ?? "plain"
     };
     return JSON.stringify(out);
   }
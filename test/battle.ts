@@ -0,0 +1,593 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Tests of battles and the systems they're built from
+ */
+
+import * as assert from "assert";
+import { ActionResolver } from "../src/battle/ActionResolver";
+import { AutoAlly } from "../src/battle/AutoAlly";
+import { getAction } from "../src/battle/BattleAction";
+import { Battle, BattleResults } from "../src/battle/Battle";
+import { BattleAnimator } from "../src/battle/BattleAnimator";
+import {
+  Behaviour,
+  getBehaviourDefinition,
+  loadBehaviour,
+  TargetSelector
+} from "../src/battle/Behaviour";
+import { simulateBattles } from "../src/battle/BattleSimulator";
+import { Combatant, CombatantTraits } from "../src/battle/Combatant";
+import { createStandardCalculator } from "../src/battle/DamageCalculator";
+import { BattleEvent } from "../src/battle/BattleEvent";
+import { getEnemyDefinition } from "../src/battle/Enemy";
+import {
+  applyFormation,
+  getFormation,
+  reachableTargets,
+  rowDamageMultiplier
+} from "../src/battle/Formation";
+import { StandardEnemy } from "../src/battle/StandardEnemy";
+import { getStatusDefinition } from "../src/battle/StatusEffect";
+import { BM } from "../src/BestiaryManager";
+import { rollDrops, rollGold } from "../src/items/Loot";
+import { RNG } from "../src/RandomManager";
+import { Vector } from "../src/Vector";
+import { Test } from "./index";
+
+/** milliseconds in a game step */
+const STEP_MS = 1000 / 30;
+/** steps to give a battle before deciding it's stuck */
+const MAX_STEPS = 3600;
+
+/** lets promises resolve, like waiting for the next game step */
+const nextStep = (): Promise<void> =>
+  new Promise(resolve => setImmediate(resolve));
+
+/**
+ * plays a battle through a BattleAnimator, stepping only the combatants still
+ * in the battle like an on-screen battle does
+ * @param battle the battle to play
+ * @return how many steps it took to end
+ */
+const playAnimated = async (battle: Battle): Promise<number> => {
+  const animator = new BattleAnimator(() => new Vector(0, 0));
+  battle.setPresenter(animator.present.bind(animator));
+  battle.start();
+  for (let i = 0; i < MAX_STEPS; ++i) {
+    if (battle.getOutcome() !== undefined) return i;
+    await nextStep();
+    animator.step(STEP_MS, battle.allCombatants());
+    battle.step();
+  }
+  return MAX_STEPS;
+};
+
+/** creates an ally strong enough to win quickly */
+const createAlly = (): AutoAlly => {
+  const ally = new AutoAlly("Ally");
+  ally.traits = { ...ally.traits, hp: 200, maxHp: 200, attack: 30 };
+  return ally;
+};
+
+/**
+ * creates a combatant that always hits and never lands critical hits, unless
+ * given traits say otherwise
+ * @param traits traits to change from the defaults
+ */
+const createCombatant = (traits: Partial<CombatantTraits> = {}): Combatant => {
+  const combatant = new AutoAlly("Combatant");
+  combatant.traits = {
+    ...combatant.traits,
+    accuracy: 1,
+    evasion: 0,
+    critChance: 0,
+    ...traits
+  };
+  return combatant;
+};
+
+/** damage is the action's power scaled by attack over defense */
+const damageScalesWithTraits = (): void => {
+  RNG.seed(1);
+  const calculate = createStandardCalculator({ variance: 0 });
+  const user = createCombatant({ attack: 20, magic: 30 });
+  const target = createCombatant({ defense: 10, resistance: 15 });
+  assert.deepStrictEqual(calculate(user, target, 10, "physical"), {
+    amount: 20,
+    hit: true,
+    critical: false
+  });
+  assert.strictEqual(calculate(user, target, 10, "magical").amount, 20);
+  assert.strictEqual(calculate(target, user, 1, "physical").amount, 1);
+};
+
+/** damage varies by up to the variance, in both directions */
+const damageVaries = (): void => {
+  RNG.seed(1);
+  const calculate = createStandardCalculator({ variance: 0.1 });
+  const amounts: number[] = [];
+  for (let i = 0; i < 100; ++i) {
+    const { amount } = calculate(
+      createCombatant(),
+      createCombatant(),
+      100,
+      "physical"
+    );
+    assert.ok(amount >= 90 && amount <= 110, `${amount} out of range`);
+    amounts.push(amount);
+  }
+  assert.ok(Math.min(...amounts) < 100 && Math.max(...amounts) > 100);
+};
+
+/** critical hits multiply damage, and only physical attacks can be evaded */
+const damageCritsAndMisses = (): void => {
+  RNG.seed(1);
+  const calculate = createStandardCalculator({
+    variance: 0,
+    minHitChance: 0
+  });
+  const critter = createCombatant({ critChance: 1 });
+  assert.deepStrictEqual(calculate(critter, createCombatant(), 10, "magical"), {
+    amount: 15,
+    hit: true,
+    critical: true
+  });
+  const evasive = createCombatant({ evasion: 1 });
+  assert.deepStrictEqual(calculate(critter, evasive, 10, "physical"), {
+    amount: 0,
+    hit: false,
+    critical: false
+  });
+  assert.ok(calculate(critter, evasive, 10, "magical").hit);
+};
+
+/** poison stacks up to its limit, hurts every turn and wears off */
+const statusesStackAndExpire = (): void => {
+  const combatant = createCombatant({ hp: 100, maxHp: 100 });
+  const poison = getStatusDefinition("poison");
+  assert.ok(combatant.addStatus(poison));
+  assert.ok(combatant.addStatus(poison));
+  assert.ok(combatant.addStatus(poison));
+  assert.ok(!combatant.addStatus(poison), "stacked past max stacks");
+  for (let turn = 0; turn < 3; ++turn) {
+    assert.deepStrictEqual(combatant.startTurn(), {
+      hpChange: -12,
+      skip: false
+    });
+    assert.ok(combatant.hasStatus("poison"));
+    combatant.endTurn();
+  }
+  assert.ok(!combatant.hasStatus("poison"));
+  assert.strictEqual(combatant.traits.hp, 64);
+};
+
+/** statuses change effective traits and damage without changing base traits */
+const statusesModifyTraits = (): void => {
+  const combatant = createCombatant({ hp: 100, maxHp: 100, speed: 4 });
+  combatant.addStatus(getStatusDefinition("weaken"));
+  combatant.addStatus(getStatusDefinition("weaken"));
+  combatant.addStatus(getStatusDefinition("haste"));
+  const effective = combatant.getEffectiveTraits();
+  assert.strictEqual(effective.attack, 4);
+  assert.strictEqual(effective.speed, 6);
+  assert.strictEqual(combatant.traits.attack, 10);
+  combatant.addStatus(getStatusDefinition("shield"));
+  assert.strictEqual(combatant.takeDamage(20), 10);
+};
+
+/** each stacking rule changes the duration the way it says */
+const statusesFollowStackingRules = (): void => {
+  const combatant = createCombatant();
+  const stun = getStatusDefinition("stun");
+  combatant.addStatus(stun);
+  assert.ok(!combatant.addStatus(stun), "stun should ignore reapplying");
+  assert.ok(combatant.startTurn().skip);
+  const haste = getStatusDefinition("haste");
+  combatant.addStatus(haste);
+  combatant.endRound();
+  combatant.addStatus(haste);
+  const remaining = combatant
+    .getStatuses()
+    .filter(s => s.definition === haste)
+    .map(s => s.getRemaining());
+  assert.deepStrictEqual(remaining, [5]);
+};
+
+/** lowest and highest hp targets are both picked by fraction of max hp */
+const behavioursCompareHpFractions = (): void => {
+  const half = createCombatant({ hp: 50, maxHp: 100 });
+  const bigger = createCombatant({ hp: 60, maxHp: 200 });
+  const targetOf = (selector: TargetSelector): Combatant =>
+    new Behaviour({
+      id: "picky",
+      phases: [
+        {
+          name: "Normal",
+          rules: [{ conditions: [], action: "attack", target: selector }],
+          actions: []
+        }
+      ]
+    }).choose(createCombatant(), [], [half, bigger]).target;
+  assert.strictEqual(targetOf("highest hp opponent"), half);
+  assert.strictEqual(targetOf("lowest hp opponent"), bigger);
+};
+
+/** the first rule whose conditions all pass is used */
+const behavioursFollowRules = (): void => {
+  RNG.seed(1);
+  const shaman = new Behaviour(getBehaviourDefinition("shaman"));
+  const user = createCombatant({ hp: 100, maxHp: 100, mp: 10, maxMp: 10 });
+  const hurt = createCombatant({ hp: 20, maxHp: 100 });
+  const opponent = createCombatant();
+  const mend = shaman.choose(user, [user, hurt], [opponent]);
+  assert.strictEqual(mend.action.id, "mend");
+  assert.strictEqual(mend.target, hurt);
+
+  // with nobody hurt and every opponent poisoned, no rule passes
+  opponent.addStatus(getStatusDefinition("poison"));
+  for (let i = 0; i < 20; ++i) {
+    const choice = shaman.choose(user, [user], [opponent]);
+    assert.ok(["attack", "defend"].indexOf(choice.action.id) > -1);
+  }
+};
+
+/** a later phase starts below its hp threshold, with its script first */
+const behavioursChangePhase = (): void => {
+  RNG.seed(1);
+  const warlord = new Behaviour(getBehaviourDefinition("warlord"));
+  const user = createCombatant({ hp: 40, maxHp: 100, mp: 40, maxMp: 40 });
+  const opponent = createCombatant();
+  const choose = (): string =>
+    warlord.choose(user, [user], [opponent]).action.id;
+  assert.strictEqual(choose(), "haste");
+  assert.strictEqual(choose(), "quake");
+  user.traits.hp = 10;
+  assert.strictEqual(choose(), "barrier");
+  user.addStatus(getStatusDefinition("shield"));
+  assert.ok(["cleave", "bash"].indexOf(choose()) > -1);
+};
+
+/** behaviours can be read from JSON, but only if they make sense */
+const behavioursLoadFromJson = (): void => {
+  const warlord = getBehaviourDefinition("warlord");
+  assert.deepStrictEqual(loadBehaviour(JSON.stringify(warlord)), warlord);
+  const withRule = (rule: object): string =>
+    JSON.stringify({
+      id: "broken",
+      phases: [{ name: "Normal", rules: [rule], actions: [] }]
+    });
+  assert.throws(
+    () =>
+      loadBehaviour(
+        withRule({
+          conditions: [{ type: "hp under", fraction: 0.5 }],
+          action: "attack",
+          target: "self"
+        })
+      ),
+    /unknown condition "hp under" in broken phase Normal/
+  );
+  assert.throws(
+    () =>
+      loadBehaviour(
+        withRule({ conditions: [], action: "attack", target: "weakest foe" })
+      ),
+    /unknown target "weakest foe"/
+  );
+  assert.throws(
+    () =>
+      loadBehaviour(
+        withRule({
+          conditions: [{ type: "chance", chance: "half" }],
+          action: "attack",
+          target: "self"
+        })
+      ),
+    /needs a number chance/
+  );
+};
+
+/** formations put each position in a row, and extra positions up front */
+const formationsAssignRows = (): void => {
+  const side = [1, 2, 3, 4].map(() => createCombatant());
+  applyFormation(side, getFormation("rearguard"));
+  assert.deepStrictEqual(
+    side.map(c => c.row),
+    ["front", "back", "back", "back"]
+  );
+  const crowd = [1, 2, 3, 4, 5, 6].map(() => createCombatant());
+  applyFormation(crowd, getFormation("rearguard"));
+  assert.strictEqual(crowd[5].row, "front");
+};
+
+/** melee actions can't reach the back row until the front row falls */
+const formationsLimitReach = (): void => {
+  const front = createCombatant({ hp: 10, maxHp: 10 });
+  const back = createCombatant();
+  back.row = "back";
+  const attack = getAction("attack");
+  assert.deepStrictEqual(reachableTargets(attack, [front, back]), [front]);
+  assert.deepStrictEqual(reachableTargets(getAction("flame"), [front, back]), [
+    front,
+    back
+  ]);
+  front.takeDamage(10);
+  assert.deepStrictEqual(reachableTargets(attack, [front, back]), [
+    front,
+    back
+  ]);
+};
+
+/** the back row deals less melee damage and takes less physical damage */
+const formationsChangeDamage = (): void => {
+  const front = createCombatant();
+  const back = createCombatant();
+  back.row = "back";
+  const attack = getAction("attack");
+  assert.strictEqual(rowDamageMultiplier(attack, front, front, "physical"), 1);
+  assert.strictEqual(rowDamageMultiplier(attack, back, front, "physical"), 0.5);
+  assert.strictEqual(
+    rowDamageMultiplier(attack, back, back, "physical"),
+    0.375
+  );
+  const flame = getAction("flame");
+  assert.strictEqual(rowDamageMultiplier(flame, back, back, "magical"), 1);
+};
+
+/**
+ * creates an enemy with 100 hp and even defenses, keeping its affinities
+ * @param id identifier of the enemy in enemies.ts
+ */
+const createTarget = (id: string): StandardEnemy => {
+  const enemy = new StandardEnemy(getEnemyDefinition(id));
+  enemy.traits = {
+    ...enemy.traits,
+    hp: 100,
+    maxHp: 100,
+    defense: 10,
+    resistance: 10,
+    evasion: 0
+  };
+  return enemy;
+};
+
+/** elemental damage is multiplied by the target's affinity for the element */
+const affinitiesChangeDamage = (): void => {
+  RNG.seed(1);
+  const events: BattleEvent[] = [];
+  const resolver = new ActionResolver(e => events.push(e));
+  resolver.noisy = false;
+  resolver.damageCalculator = createStandardCalculator({ variance: 0 });
+  const user = createCombatant({ mp: 100, maxMp: 100 });
+  const hpLost = (actionId: string, target: StandardEnemy): number => {
+    const before = target.traits.hp;
+    resolver.resolve(
+      user,
+      { action: getAction(actionId), target },
+      [],
+      [target]
+    );
+    return before - target.traits.hp;
+  };
+
+  assert.strictEqual(hpLost("flame", createTarget("slime")), 18);
+  assert.strictEqual(hpLost("frost", createTarget("slime")), 5);
+  assert.strictEqual(hpLost("quake", createTarget("bat")), 0);
+  assert.strictEqual(hpLost("attack", createTarget("bat")), 10);
+
+  // no action deals dark damage yet, so make one
+  const shaman = createTarget("goblin-shaman");
+  shaman.traits.hp = 50;
+  const darkFlame = { ...getAction("flame"), element: "dark" as const };
+  resolver.resolve(user, { action: darkFlame, target: shaman }, [], [shaman]);
+  assert.strictEqual(shaman.traits.hp, 59);
+
+  const affinities = events.map(e => (e.type === "affinity" ? e.affinity : ""));
+  assert.deepStrictEqual(
+    affinities.filter(a => a !== ""),
+    ["weak", "resist", "immune", "absorb"]
+  );
+};
+
+/** the bestiary remembers what's been discovered about each kind of enemy */
+const affinitiesAreDiscovered = (): void => {
+  assert.ok(BM.discoverAffinity("test-kind", "fire", "weak"));
+  assert.ok(!BM.discoverAffinity("test-kind", "fire", "weak"));
+  BM.discoverAffinity("test-kind", "ice", "resist");
+  assert.deepStrictEqual(BM.getKnownAffinities("test-kind"), {
+    fire: "weak",
+    ice: "resist"
+  });
+  assert.ok(BM.getKnownKinds().indexOf("test-kind") > -1);
+};
+
+/**
+ * plays an ATB battle in wait mode until an ally's attack animation is done
+ * @param ally the ally to watch
+ * @return how many steps an enemy's time gauge rose while the ally attacked
+ */
+const gaugeRisesDuringAttack = async (ally: AutoAlly): Promise<number> => {
+  RNG.seed(1);
+  const slime = new StandardEnemy(getEnemyDefinition("slime"));
+  slime.traits = { ...slime.traits, hp: 1000, maxHp: 1000 };
+  const battle = new Battle([ally], [slime], { mode: "atb", atbWait: "wait" });
+  battle.setNoisy(false);
+  const animator = new BattleAnimator(() => new Vector(0, 0));
+  battle.setPresenter(animator.present.bind(animator));
+  battle.start();
+  let attacked = false;
+  let rises = 0;
+  for (let i = 0; i < MAX_STEPS; ++i) {
+    await nextStep();
+    animator.step(STEP_MS, battle.allCombatants());
+    const before = battle.getGauge(slime) ?? 0;
+    battle.step();
+    if (ally.animation.getState() === "attack") {
+      attacked = true;
+      if ((battle.getGauge(slime) ?? 0) > before) rises++;
+    } else if (attacked) {
+      return rises;
+    }
+  }
+  throw new Error("the ally never attacked");
+};
+
+/** in wait mode time only stops while the player is choosing a command */
+const atbWaitsForChoices = async (): Promise<void> => {
+  assert.ok((await gaugeRisesDuringAttack(createAlly())) > 0, "time stopped");
+  class ChoosingAlly extends AutoAlly {
+    public isChoosing(): boolean {
+      return true;
+    }
+  }
+  const choosing = new ChoosingAlly("Ally");
+  choosing.traits = createAlly().traits;
+  assert.strictEqual(await gaugeRisesDuringAttack(choosing), 0);
+};
+
+/**
+ * wins a battle against a few enemies and collects what they dropped
+ * @param seed the seed to play the battle with
+ */
+const winLoot = async (seed: number): Promise<BattleResults> => {
+  RNG.seed(seed);
+  const enemies = ["slime", "bat", "goblin-shaman"].map(
+    id => new StandardEnemy(getEnemyDefinition(id))
+  );
+  const battle = new Battle([createAlly()], enemies);
+  battle.setNoisy(false);
+  await playAnimated(battle);
+  assert.strictEqual(battle.getOutcome(), "victory");
+  const results = battle.collectResults();
+  assert.strictEqual(battle.collectResults(), results, "rolled loot twice");
+  return results;
+};
+
+/** the same seed always wins the same loot */
+const lootIsReproducible = async (): Promise<void> => {
+  const loot = async (seed: number): Promise<string> => {
+    const { gold, items } = await winLoot(seed);
+    return JSON.stringify({ gold, items });
+  };
+  const first = await loot(4);
+  assert.strictEqual(await loot(4), first);
+  const others = [await loot(5), await loot(6), await loot(7)];
+  assert.ok(
+    others.some(l => l !== first),
+    "loot ignored the seed"
+  );
+};
+
+/** loot has its own stream, so other randomness doesn't change drops */
+const lootHasItsOwnStream = (): void => {
+  const table = new StandardEnemy(getEnemyDefinition("goblin-shaman")).drops;
+  const roll = (battleRolls: number): string => {
+    RNG.seed(9);
+    for (let i = 0; i < battleRolls; ++i) RNG.stream("battle").next();
+    const loot = RNG.stream("loot");
+    return JSON.stringify([rollGold(table, loot), rollDrops(table, loot)]);
+  };
+  assert.strictEqual(roll(0), roll(25));
+};
+
+/** a big slime's defeat is animated even though it leaves the battle */
+const splitBattleFinishes = async (): Promise<void> => {
+  RNG.seed(1);
+  const bigSlime = new StandardEnemy(getEnemyDefinition("big-slime"));
+  const battle = new Battle([createAlly()], [bigSlime]);
+  battle.setNoisy(false);
+  const steps = await playAnimated(battle);
+  assert.strictEqual(battle.getOutcome(), "victory", `stuck after ${steps}`);
+  assert.ok(battle.getDeparted().indexOf(bigSlime) > -1);
+  assert.strictEqual(
+    battle.getRightCombatants().filter(c => c.getName() === "Slime").length,
+    2
+  );
+};
+
+/** a combatant that leaves plays an exit that ends, then isn't drawn */
+const departedFinishExit = async (): Promise<void> => {
+  const animator = new BattleAnimator(() => new Vector(0, 0));
+  const bat = new StandardEnemy(getEnemyDefinition("bat"));
+  let done = false;
+  animator
+    .present([{ type: "left battle", combatant: bat }])
+    .then(() => (done = true));
+  await nextStep();
+  animator.step(STEP_MS, []);
+  assert.strictEqual(bat.animation.getState(), "leave");
+  assert.ok(!bat.animation.hasEnded(), "exit ended before it was shown");
+  for (let i = 0; i < MAX_STEPS && !done; ++i) {
+    await nextStep();
+    animator.step(STEP_MS, []);
+  }
+  assert.ok(done, "exit never finished");
+  assert.strictEqual(bat.animation.getState(), "leave");
+  assert.ok(bat.animation.hasEnded());
+};
+
+/** simulated combatants are reported by who they are, not where they end up */
+const simulatorTracksSplits = async (): Promise<void> => {
+  const report = await simulateBattles({
+    createParties: () => ({
+      left: [createAlly()],
+      right: [
+        new StandardEnemy(getEnemyDefinition("big-slime")),
+        new StandardEnemy(getEnemyDefinition("bat"))
+      ]
+    }),
+    battles: 5,
+    seed: 1
+  });
+  assert.strictEqual(report.outcomes.victory, 5);
+  assert.deepStrictEqual(
+    report.combatants.map(c => `${c.side} ${c.name}`),
+    ["left Ally", "right Big Slime", "right Bat", "right Slime"]
+  );
+  // the big slime is defeated every time, even though it left the battle
+  assert.strictEqual(report.combatants[1].survivalRate, 0);
+  assert.ok(report.combatants[1].damageTaken.min > 0);
+};
+
+/** tests of battles and the systems they're built from */
+export const battleTests: Test[] = [
+  ["[user-002] damage scales with traits", damageScalesWithTraits],
+  ["[user-002] damage varies", damageVaries],
+  ["[user-002] damage crits and misses", damageCritsAndMisses],
+  ["[user-004] statuses stack and expire", statusesStackAndExpire],
+  ["[user-004] statuses modify traits", statusesModifyTraits],
+  ["[user-004] statuses follow stacking rules", statusesFollowStackingRules],
+  ["[user-005] behaviours compare hp fractions", behavioursCompareHpFractions],
+  ["[user-005] behaviours follow rules", behavioursFollowRules],
+  ["[user-005] behaviours change phase", behavioursChangePhase],
+  ["[user-005] behaviours load from json", behavioursLoadFromJson],
+  ["[user-008] atb waits for choices", atbWaitsForChoices],
+  ["[user-013] formations assign rows", formationsAssignRows],
+  ["[user-013] formations limit reach", formationsLimitReach],
+  ["[user-013] formations change damage", formationsChangeDamage],
+  ["[user-014] affinities change damage", affinitiesChangeDamage],
+  ["[user-014] affinities are discovered", affinitiesAreDiscovered],
+  ["[user-022] loot is reproducible", lootIsReproducible],
+  ["[user-022] loot has its own stream", lootHasItsOwnStream],
+  ["[user-023] split battle finishes", splitBattleFinishes],
+  ["[user-023] simulator tracks splits", simulatorTracksSplits],
+  ["[user-023] departed finish exit", departedFinishExit]
+];
@@ -0,0 +1,106 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Tests of collision against room barriers and solid entities
+ */
+
+import * as assert from "assert";
+import { Box } from "../src/Box";
+import { separateFromBox, sweepBox } from "../src/Collision";
+import { PlayerEntity } from "../src/PlayerEntity";
+import { Polygon } from "../src/Polygon";
+import { Room } from "../src/Room";
+import { Vector } from "../src/Vector";
+import { Test } from "./index";
+
+/** a thin wall from the top to the bottom of the room at x = 50 */
+const wall = new Polygon(
+  new Vector(50, -100),
+  new Vector(52, -100),
+  new Vector(52, 100),
+  new Vector(50, 100)
+);
+
+/**
+ * asserts that two vectors are equal, give or take rounding
+ * @param actual the vector to check
+ * @param expected the vector it should be
+ */
+const assertNear = (actual: Vector, expected: Vector): void => {
+  assert.ok(
+    actual.subtract(expected).getMagnitude() < 0.01,
+    `expected (${expected.x}, ${expected.y}), got (${actual.x}, ${actual.y})`
+  );
+};
+
+/** overlapping boxes are pushed apart the shortest way */
+const collisionSeparatesBoxes = (): void => {
+  const box = new Box(new Vector(0, 0), 10, 10);
+  assertNear(
+    separateFromBox(box, new Box(new Vector(8, -20), 10, 50)) ??
+      new Vector(0, 0),
+    new Vector(-2, 0)
+  );
+  assert.strictEqual(
+    separateFromBox(box, new Box(new Vector(10, 0), 10, 10)),
+    undefined,
+    "touching boxes were pushed apart"
+  );
+};
+
+/** moving boxes stop at barriers, even fast ones */
+const collisionStopsAtBarriers = (): void => {
+  const box = new Box(new Vector(0, 0), 10, 10);
+  assertNear(sweepBox(box, new Vector(20, 0), [wall], []), new Vector(20, 0));
+  assertNear(sweepBox(box, new Vector(100, 0), [wall], []), new Vector(40, 0));
+  assertNear(sweepBox(box, new Vector(5000, 0), [wall], []), new Vector(40, 0));
+};
+
+/** moving diagonally into a barrier slides along it */
+const collisionSlidesAlongBarriers = (): void => {
+  const box = new Box(new Vector(0, 0), 10, 10);
+  assertNear(
+    sweepBox(box, new Vector(100, 30), [wall], []),
+    new Vector(40, 30)
+  );
+};
+
+/** rooms only stop entities at solid entities other than themselves */
+const collisionInRooms = (): void => {
+  const room = new Room("test room");
+  const player = new PlayerEntity("player", new Vector(0, 0), 20, 20);
+  const rock = new PlayerEntity("rock", new Vector(50, 0), 20, 20);
+  room.addEntities(player, rock);
+  assertNear(room.collide(player, new Vector(100, 0)), new Vector(100, 0));
+  rock.solid = true;
+  player.solid = true;
+  assertNear(room.collide(player, new Vector(100, 0)), new Vector(30, 0));
+  room.addBarriers(wall);
+  assertNear(room.collide(player, new Vector(0, 100)), new Vector(0, 100));
+  assertNear(room.collide(player, new Vector(-100, 0)), new Vector(-100, 0));
+};
+
+/** tests of collision against room barriers and solid entities */
+export const collisionTests: Test[] = [
+  ["[user-025] collision separates boxes", collisionSeparatesBoxes],
+  ["[user-025] collision stops at barriers", collisionStopsAtBarriers],
+  ["[user-025] collision slides along barriers", collisionSlidesAlongBarriers],
+  ["[user-025] collision in rooms", collisionInRooms]
+];
@@ -0,0 +1,50 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Tests of entities moving around free roam rooms
+ */
+
+import * as assert from "assert";
+import { FreeRoamEnemy } from "../src/FreeRoamEnemy";
+import { PlayerEntity } from "../src/PlayerEntity";
+import { Vector } from "../src/Vector";
+import { Test } from "./index";
+
+/** an enemy the player escaped from can't fight again until they separate */
+const escapedEnemiesWaitForSpace = (): void => {
+  const player = new PlayerEntity("player", new Vector(0, 0), 20, 20);
+  const enemy = new FreeRoamEnemy("slime", new Vector(10, 0), 20, 20, {
+    group: ["slime"],
+    level: 1,
+    sightRadius: 0
+  });
+  assert.ok(enemy.canFight());
+  enemy.stun(3);
+  for (let i = 0; i < 10; ++i) enemy.step(player);
+  assert.ok(!enemy.canFight(), "re-armed while touching the player");
+  player.move(new Vector(-30, 0), false);
+  enemy.step(player);
+  assert.ok(enemy.canFight());
+};
+
+/** tests of entities moving around free roam rooms */
+export const freeRoamTests: Test[] = [
+  ["[user-017] escaped enemies wait for space", escapedEnemiesWaitForSpace]
+];
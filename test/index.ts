@@ -0,0 +1,55 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Runs every test. Usage:
+ *   npm test
+ */
+
+import "./browser";
+import { Behaviour } from "../src/battle/Behaviour";
+import { battleTests } from "./battle";
+import { collisionTests } from "./collision";
+import { freeRoamTests } from "./freeRoam";
+import { itemTests } from "./items";
+
+/** a test's name, tagged with the request it covers, and its body */
+export type Test = [string, () => void | Promise<void>];
+
+const tests: Test[] = [
+  ...battleTests,
+  ...itemTests,
+  ...collisionTests,
+  ...freeRoamTests
+];
+
+Behaviour.noisy = false;
+(async (): Promise<void> => {
+  let failed = 0;
+  for (const [name, test] of tests) {
+    try {
+      await test();
+      console.log(`ok   ${name}`);
+    } catch (e) {
+      failed++;
+      console.log(`FAIL ${name}\n${e instanceof Error ? e.message : e}`);
+    }
+  }
+  process.exit(failed > 0 ? 1 : 0);
+})();
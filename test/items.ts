@@ -0,0 +1,162 @@
+/**
+ * Copyright (C) 2020 Joseph Petitti
+ *
+ * This file is part of Artimancer, a simple turn-based RPG for the web.
+ *
+ * Artimancer is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by the
+ * Free Software Foundation, either version 3 of the License, or (at your
+ * option) any later version.
+ *
+ * Artimancer is distributed in the hope that it will be useful, but WITHOUT
+ * ANY WARRANTY; without even the implied warranty of MERCHANTABILITY or
+ * FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public License for
+ * more details.
+ *
+ * You should have received a copy of the GNU General Public License along with
+ * Artimancer. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Tests of items, the party's inventory, and equipment
+ */
+
+import * as assert from "assert";
+import { getAction } from "../src/battle/BattleAction";
+import { INV, MAX_GOLD } from "../src/InventoryManager";
+import { Inventory } from "../src/items/Inventory";
+import { getItemDefinition } from "../src/items/Item";
+import { getCharacterDefinition, PartyMember } from "../src/party/PartyMember";
+import { Test } from "./index";
+
+/** stacks stop growing at their item's limit and keep their order */
+const inventoryStacksItems = (): void => {
+  const inventory = new Inventory();
+  assert.strictEqual(inventory.add("slime-gel", 3), 3);
+  assert.strictEqual(inventory.add("potion", 120), 99);
+  assert.strictEqual(inventory.getRoom("potion"), 0);
+  assert.strictEqual(inventory.add("rusty-key", 2), 1);
+  assert.deepStrictEqual(
+    inventory.getStacks().map(s => `${s.item.id} ${s.count}`),
+    ["slime-gel 3", "potion 99", "rusty-key 1"]
+  );
+  assert.deepStrictEqual(
+    inventory.getStacks("consumable").map(s => s.item.id),
+    ["potion"]
+  );
+  assert.ok(!inventory.remove("slime-gel", 4), "removed more than there were");
+  assert.strictEqual(inventory.count("slime-gel"), 3);
+  assert.ok(inventory.remove("slime-gel", 3));
+  assert.deepStrictEqual(
+    inventory.getStacks().map(s => s.item.id),
+    ["potion", "rusty-key"]
+  );
+  assert.deepStrictEqual(
+    inventory.getBattleActions().map(a => a.id),
+    ["potion"]
+  );
+};
+
+/** gold is capped, and rewards that don't fit are left behind */
+const inventoryHoldsRewards = (): void => {
+  const inventory = INV.getInventory();
+  inventory.add("rusty-key");
+  const leftBehind = INV.deposit({
+    gold: MAX_GOLD,
+    items: [
+      { item: "rusty-key", count: 1 },
+      { item: "bat-wing", count: 2 }
+    ]
+  });
+  assert.deepStrictEqual(leftBehind, [{ item: "rusty-key", count: 1 }]);
+  assert.strictEqual(inventory.count("bat-wing"), 2);
+  assert.strictEqual(INV.getGold(), MAX_GOLD);
+  INV.addGold(1);
+  assert.strictEqual(INV.getGold(), MAX_GOLD);
+  assert.ok(INV.spendGold(MAX_GOLD));
+  assert.ok(!INV.spendGold(1), "spent gold the party didn't have");
+  inventory.remove("rusty-key");
+  inventory.remove("bat-wing", 2);
+};
+
+/** items are only used up when they do something */
+const inventoryUsesItems = (): void => {
+  const inventory = INV.getInventory();
+  const knight = new PartyMember(getCharacterDefinition("knight"));
+  inventory.add("potion");
+  assert.ok(!INV.useOn("potion", [knight]), "healed someone already healthy");
+  assert.strictEqual(inventory.count("potion"), 1);
+
+  knight.setCondition(10, knight.getCondition().mp);
+  assert.ok(INV.useOn("potion", [knight]));
+  const [heal] = getAction("potion").effects;
+  assert.strictEqual(
+    knight.getCondition().hp,
+    10 + (heal.kind === "heal" ? heal.power : 0)
+  );
+  assert.strictEqual(inventory.count("potion"), 0);
+  assert.ok(!INV.useOn("potion", [knight]), "used a potion there wasn't");
+};
+
+/** equipping swaps what's worn with what's in the inventory */
+const equipmentSwapsWithInventory = (): void => {
+  const inventory = INV.getInventory();
+  const knight = new PartyMember(getCharacterDefinition("knight"));
+  assert.strictEqual(knight.getTraits().attack, 17);
+  assert.ok(!INV.equip("oak-staff", knight), "equipped a staff there wasn't");
+
+  inventory.add("oak-staff");
+  assert.ok(INV.equip("oak-staff", knight));
+  assert.strictEqual(knight.getEquipped("weapon")?.id, "oak-staff");
+  assert.strictEqual(inventory.count("oak-staff"), 0);
+  assert.strictEqual(inventory.count("bronze-sword"), 1);
+  assert.strictEqual(knight.getTraits().attack, 14);
+  assert.strictEqual(knight.getTraits().magic, 10);
+  assert.ok(knight.getActionIds().indexOf("flame") > -1);
+
+  assert.ok(INV.unequip(knight, "weapon"));
+  assert.strictEqual(knight.getEquipped("weapon"), undefined);
+  assert.strictEqual(knight.getTraits().attack, 13);
+  assert.ok(knight.getActionIds().indexOf("flame") === -1);
+  assert.ok(!INV.unequip(knight, "weapon"), "unequipped an empty slot");
+  inventory.remove("oak-staff");
+  inventory.remove("bronze-sword");
+};
+
+/** equipment can't be swapped out when there's no room to put it back */
+const equipmentNeedsRoom = (): void => {
+  const inventory = INV.getInventory();
+  const knight = new PartyMember(getCharacterDefinition("knight"));
+  inventory.add("bronze-sword", 9);
+  inventory.add("oak-staff");
+  assert.ok(!INV.equip("oak-staff", knight), "no room for the sword");
+  assert.strictEqual(knight.getEquipped("weapon")?.id, "bronze-sword");
+  assert.strictEqual(inventory.count("oak-staff"), 1);
+  assert.ok(!INV.unequip(knight, "weapon"), "no room for the sword");
+  inventory.remove("bronze-sword", 9);
+  inventory.remove("oak-staff");
+};
+
+/** taking off equipment can lower max hp, and equipment changes affinities */
+const equipmentChangesTraits = (): void => {
+  const knight = new PartyMember(getCharacterDefinition("knight"));
+  assert.strictEqual(knight.getCondition().hp, 80);
+  assert.strictEqual(knight.getTraitsWith("armour", undefined).maxHp, 70);
+  knight.unequip("armour");
+  assert.strictEqual(knight.getCondition().hp, 70);
+  knight.equip(getItemDefinition("ember-ring"));
+  assert.deepStrictEqual(knight.getAffinities(), {
+    fire: "resist",
+    ice: "weak"
+  });
+};
+
+/** tests of items, the party's inventory, and equipment */
+export const itemTests: Test[] = [
+  ["[user-020] inventory stacks items", inventoryStacksItems],
+  ["[user-020] inventory holds rewards", inventoryHoldsRewards],
+  ["[user-020] inventory uses items", inventoryUsesItems],
+  ["[user-021] equipment swaps with inventory", equipmentSwapsWithInventory],
+  ["[user-021] equipment needs room", equipmentNeedsRoom],
+  ["[user-021] equipment changes traits", equipmentChangesTraits]
+];